@@ -0,0 +1,382 @@
+/**
+ * Matcher benchmark: trie vs. the per-navigation matcher it replaced
+ *
+ * Compares the trie lookup of `matchRouteBranches` with a reference copy
+ * of the matcher RouterProvider used before routes were compiled, on
+ * generated admin-style route tables, and checks that both find the same
+ * route. The old matcher sorted each route list into static, dynamic and
+ * catch-all buckets on every navigation and recursed into children
+ * asynchronously; the trie is built once by `compileRoutes`.
+ *
+ * Run with `npm run bench:matcher`.
+ */
+import join from "url-join";
+import type { Route, RouteMatch } from "../src/types";
+import {
+  compileRoutes,
+  matchRouteBranches,
+  type CompiledRoutes,
+} from "../src/core/matcher";
+
+/** Route tables to compare, by number of modules */
+const TABLE_SIZES = [5, 25, 100];
+/** Resources per module */
+const RESOURCES = 10;
+/** How long each lookup strategy runs per table */
+const SAMPLE_MS = 300;
+
+/**
+ * Builds an admin portal route table
+ * Each resource has a list, a form and a record with nested pages, so a
+ * module adds `RESOURCES * 6` routes.
+ */
+const generateRoutes = (modules: number): Route[] => {
+  const routes: Route[] = [];
+  for (let m = 0; m < modules; m++) {
+    const children: Route[] = [];
+    for (let r = 0; r < RESOURCES; r++) {
+      children.push({
+        path: `resource-${r}`,
+        children: [
+          { index: true },
+          { path: "new" },
+          {
+            path: ":id(\\d+)",
+            children: [{ index: true }, { path: "edit" }],
+          },
+        ],
+      });
+    }
+    routes.push({ path: `module-${m}`, children });
+  }
+  routes.push({ path: "settings/*" }, { path: ":workspace/dashboard" });
+  return routes;
+};
+
+/**
+ * Counts the routes of a tree
+ */
+const countRoutes = (routes: Route[]): number =>
+  routes.reduce(
+    (count, route) => count + 1 + countRoutes(route.children ?? []),
+    0
+  );
+
+/**
+ * Pathnames hitting the first and last modules, a fallback and a miss
+ */
+const samplePathnames = (modules: number): string[] => [
+  "/module-0/resource-0",
+  `/module-${modules - 1}/resource-${RESOURCES - 1}/42/edit`,
+  `/module-${Math.floor(modules / 2)}/resource-3/new`,
+  "/settings/profile/security",
+  "/acme/dashboard",
+  `/module-${modules - 1}/unknown/page`,
+];
+
+// Baseline: the matcher RouterProvider ran on every navigation before
+// routes were compiled. Redirects, middleware, guards and components are
+// left out of the copy, the generated tables have none.
+
+/**
+ * Normalize path to string (handles array paths)
+ * Preserves '/' as a special case for root path
+ */
+const normalizePath = (path: string | string[] | undefined): string => {
+  if (path === undefined) return "";
+  if (Array.isArray(path)) {
+    return path
+      .map((p) => {
+        // Keep "/" as empty string to represent root
+        if (p === "/") return "";
+        return p.startsWith("/") ? p.slice(1) : p;
+      })
+      .join("|");
+  }
+  // Keep "/" as empty string to represent root
+  if (path === "/") return "";
+  return path.startsWith("/") ? path.slice(1) : path;
+};
+
+/**
+ * Get the first path from a path (string or array)
+ */
+const getFirstPath = (path: string | string[] | undefined): string => {
+  if (path === undefined) return "";
+  if (Array.isArray(path)) {
+    return path[0] || "";
+  }
+  // Handle pipe-separated paths (already normalized)
+  if (path.includes("|")) {
+    return path.split("|")[0];
+  }
+  return path;
+};
+
+/**
+ * Extracts params from a path using a pattern
+ */
+const extractParams = (
+  pattern: string,
+  pathname: string,
+  partialMatch: boolean = false
+): Record<string, string> | null => {
+  // Special case: root path matching
+  const normalizedPattern = pattern === "/" ? "" : pattern;
+  const normalizedPathname = pathname === "/" ? "" : pathname;
+
+  const patternParts = normalizedPattern.split("/").filter(Boolean);
+  const pathParts = normalizedPathname.split("/").filter(Boolean);
+
+  // Both empty means root path match
+  if (patternParts.length === 0 && pathParts.length === 0) {
+    return {};
+  }
+
+  // The route matches if it consumes a prefix of the URL
+  if (partialMatch) {
+    if (patternParts.length > pathParts.length) return null;
+  } else if (patternParts.length !== pathParts.length) {
+    // Exact match logic (unless catch-all)
+    const hasCatchAll = patternParts.some((p) => p.startsWith("*"));
+    if (!hasCatchAll) return null;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const patternPart = patternParts[i];
+    const pathPart = pathParts[i];
+
+    // Catch-all segment (*splat or **)
+    if (patternPart.startsWith("*")) {
+      const paramName = patternPart.slice(1) || "splat";
+      params[paramName] = pathParts.slice(i).join("/");
+      return params;
+    }
+
+    // Dynamic segment (:param)
+    if (patternPart.startsWith(":")) {
+      const paramName = patternPart.slice(1);
+      // Handle optional params (:param?)
+      if (paramName.endsWith("?")) {
+        params[paramName.slice(0, -1)] = pathPart ?? "";
+      } else {
+        if (pathPart === undefined) return null;
+        params[paramName] = pathPart;
+      }
+      continue;
+    }
+
+    // Static segment - must match exactly
+    if (patternPart !== pathPart) return null;
+  }
+
+  return params;
+};
+
+/**
+ * Match a single path pattern against current pathname
+ */
+const matchPathPattern = (
+  routePattern: string,
+  currentPath: string,
+  partialMatch: boolean = false
+): { params: Record<string, string>; pattern: string } | null => {
+  for (const pat of routePattern.split("|")) {
+    // Handle root path pattern
+    const normalizedPat = pat === "" ? "/" : pat;
+    const params = extractParams(normalizedPat, currentPath, partialMatch);
+    if (params !== null) {
+      return { params, pattern: normalizedPat };
+    }
+  }
+  return null;
+};
+
+/**
+ * Match chain of the first matching route, empty when none matches
+ */
+const matchRoutesAsync = async (
+  routesList: Route[],
+  currentPath: string,
+  parentPath: string = "/",
+  collectedMatches: RouteMatch[] = []
+): Promise<RouteMatch[]> => {
+  const staticRoutes: Route[] = [];
+  const dynamicRoutes: Route[] = [];
+  const catchAllRoutes: Route[] = [];
+
+  for (const route of routesList) {
+    const rawPath = route.path || "";
+    const pathArray = Array.isArray(rawPath)
+      ? rawPath
+      : rawPath.includes("|")
+      ? rawPath.split("|")
+      : [rawPath];
+    if (pathArray.some((p) => p === "404" || p === "/404")) continue;
+
+    const hasCatchAll = pathArray.some((p) => p.includes("*"));
+    const hasDynamicParams = pathArray.some((p) => p.includes(":"));
+
+    if (hasCatchAll) {
+      catchAllRoutes.push(route);
+    } else if (hasDynamicParams) {
+      dynamicRoutes.push(route);
+    } else {
+      staticRoutes.push(route);
+    }
+  }
+
+  // Priority: static > dynamic > catch-all
+  const orderedRoutes = [...staticRoutes, ...dynamicRoutes, ...catchAllRoutes];
+
+  for (const route of orderedRoutes) {
+    const normalizedRoutePath = normalizePath(route.path);
+    const firstPath = getFirstPath(route.path);
+    // Handle root path correctly
+    const fullPath =
+      firstPath === "/" || firstPath === ""
+        ? parentPath
+        : join(parentPath, `/${firstPath}`);
+    // Build full pattern for matching (handles multiple paths)
+    const fullPattern = normalizedRoutePath.includes("|")
+      ? normalizedRoutePath
+          .split("|")
+          .map((p) => (p === "" ? parentPath : join(parentPath, `/${p}`)))
+          .join("|")
+      : fullPath;
+
+    // Enable partial matching if route has children
+    const isParent = route.children && route.children.length > 0;
+    const matchResult = matchPathPattern(fullPattern, currentPath, isParent);
+
+    if (matchResult) {
+      const newMatches: RouteMatch[] = [
+        ...collectedMatches,
+        {
+          route,
+          params: matchResult.params,
+          pathname: currentPath,
+          pathnameBase: parentPath,
+          pattern: matchResult.pattern,
+        },
+      ];
+
+      if (route.children && route.children.length > 0) {
+        const childMatches = await matchRoutesAsync(
+          route.children,
+          currentPath,
+          fullPath,
+          newMatches
+        );
+        if (childMatches.length > 0) return childMatches;
+      }
+
+      // Without a matching child, only an exact match counts
+      if (matchPathPattern(fullPattern, currentPath, false)) {
+        return newMatches;
+      }
+    }
+
+    // Check children routes (for routes without matching parent)
+    if (route.children) {
+      const childMatches = await matchRoutesAsync(
+        route.children,
+        currentPath,
+        fullPath,
+        collectedMatches
+      );
+      if (childMatches.length > 0) return childMatches;
+    }
+  }
+
+  return [];
+};
+
+/**
+ * Runs lookups for SAMPLE_MS, returning microseconds per lookup
+ * Async lookups are awaited one at a time, as RouterProvider did
+ */
+const measure = async (
+  lookup: (pathname: string) => unknown,
+  pathnames: string[]
+): Promise<number> => {
+  let runs = 0;
+  const start = performance.now();
+  let elapsed = 0;
+  while (elapsed < SAMPLE_MS) {
+    for (const pathname of pathnames) {
+      const result = lookup(pathname);
+      if (result instanceof Promise) await result;
+    }
+    runs += pathnames.length;
+    elapsed = performance.now() - start;
+  }
+  return (elapsed * 1000) / runs;
+};
+
+/**
+ * Pattern of the trie's first match, or null
+ */
+const triePattern = (
+  compiled: CompiledRoutes,
+  pathname: string
+): string | null => {
+  const { value } = matchRouteBranches(compiled, pathname).next();
+  return value ? value[value.length - 1].pattern : null;
+};
+
+/**
+ * Pattern of the baseline's match, or null
+ */
+const baselinePattern = async (
+  routes: Route[],
+  pathname: string
+): Promise<string | null> => {
+  const matches = await matchRoutesAsync(routes, pathname);
+  return matches.length > 0 ? matches[matches.length - 1].pattern : null;
+};
+
+const run = async () => {
+  const results = [];
+  for (const modules of TABLE_SIZES) {
+    const routes = generateRoutes(modules);
+    const pathnames = samplePathnames(modules);
+
+    const compileStart = performance.now();
+    const compiled = compileRoutes(routes);
+    const compileMs = performance.now() - compileStart;
+
+    for (const pathname of pathnames) {
+      const trie = triePattern(compiled, pathname);
+      const old = await baselinePattern(routes, pathname);
+      if (trie !== old) {
+        throw new Error(`Matchers disagree on ${pathname}: ${trie} / ${old}`);
+      }
+    }
+
+    const trieUs = await measure(
+      (pathname) => matchRouteBranches(compiled, pathname).next(),
+      pathnames
+    );
+    const baselineUs = await measure(
+      (pathname) => matchRoutesAsync(routes, pathname),
+      pathnames
+    );
+
+    results.push({
+      routes: countRoutes(routes),
+      branches: compiled.branches.length,
+      "compile (ms)": compileMs.toFixed(1),
+      "trie (µs/lookup)": trieUs.toFixed(2),
+      "old matcher (µs/lookup)": baselineUs.toFixed(2),
+      "trie vs. old": `${(baselineUs / trieUs).toFixed(1)}x`,
+    });
+  }
+
+  console.log("Trie vs. the per-navigation matcher it replaced");
+  console.table(results);
+};
+
+run();
@@ -0,0 +1,43 @@
+import { useState } from "react";
+import RouterProvider from "../context/RouterProvider";
+import { createHashHistory, type HashHistoryOptions } from "../core/history";
+import type { RouterProviderProps } from "../types";
+
+/**
+ * HashRouter props
+ */
+export interface HashRouterProps
+  extends Omit<
+    RouterProviderProps,
+    "history" | "initialEntries" | "navigationApi"
+  > {
+  /** Hash format: "slash" (`#/users`, default) or "noslash" (`#users`) */
+  hashType?: HashHistoryOptions["hashType"];
+}
+
+/**
+ * HashRouter - router that keeps the location in the URL hash
+ *
+ * For static file servers and `file://` shells (e.g. Electron) where
+ * only the hash survives a reload. Links, useLocation, useSearchParams
+ * and basename handling all work on the path stored after the `#`.
+ *
+ * @example
+ * ```tsx
+ * // index.html#/users/42
+ * <HashRouter routes={routes} />
+ *
+ * // index.html#users/42
+ * <HashRouter routes={routes} hashType="noslash" />
+ * ```
+ */
+const HashRouter = ({ hashType, ...props }: HashRouterProps) => {
+  // The hash type is fixed for the lifetime of the router
+  const [history] = useState(() => createHashHistory({ hashType }));
+
+  return <RouterProvider {...props} history={history} />;
+};
+
+HashRouter.displayName = "HashRouter";
+
+export default HashRouter;
@@ -1,5 +1,7 @@
 import { forwardRef, type MouseEvent as ReactMouseEvent } from "react";
+import { useHref } from "../hooks/useHref";
 import { useRouter } from "../hooks/useRouter";
+import { isExternalUrl } from "../utils/path";
 import type { LinkProps } from "../types";
 
 /**
@@ -37,6 +39,9 @@ const shouldNavigate = (
  * // Replace history entry
  * <Link to="/login" replace>Login</Link>
  *
+ * // Named route, built from the route tree
+ * <Link to={{ name: "user", params: { id: 42 } }}>Profile</Link>
+ *
  * // External link (opens normally)
  * <Link to="https://example.com" target="_blank">External</Link>
  * ```
@@ -59,9 +64,10 @@ const Link = forwardRef<HTMLAnchorElement, LinkProps>(
     ref
   ) => {
     const { navigate } = useRouter();
+    const href = useHref(to);
 
     // Determine if link is external
-    const isExternal = /^https?:\/\//i.test(to);
+    const isExternal = typeof to === "string" && isExternalUrl(to);
 
     const handleClick = (event: ReactMouseEvent<HTMLAnchorElement>) => {
       // Call user's onClick handler first
@@ -81,7 +87,7 @@ const Link = forwardRef<HTMLAnchorElement, LinkProps>(
     return (
       <a
         ref={ref}
-        href={to}
+        href={href}
         onClick={handleClick}
         className={className}
         target={target}
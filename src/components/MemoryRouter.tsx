@@ -0,0 +1,51 @@
+import { useState } from "react";
+import RouterProvider from "../context/RouterProvider";
+import { createMemoryHistory } from "../core/history";
+import type { Location, RouterProviderProps } from "../types";
+
+/**
+ * MemoryRouter props
+ */
+export interface MemoryRouterProps
+  extends Omit<
+    RouterProviderProps,
+    "history" | "initialEntries" | "navigationApi"
+  > {
+  /** Initial stack of URLs or locations (defaults to ["/"]) */
+  initialEntries?: Array<string | Partial<Location>>;
+  /** Maximum number of entries kept on the stack */
+  maxEntries?: number;
+}
+
+/**
+ * MemoryRouter - router that keeps its history in memory
+ *
+ * Never reads or writes the browser URL. Use it for widgets embedded
+ * in other apps, Storybook stories and tests without a DOM.
+ *
+ * @example
+ * ```tsx
+ * <MemoryRouter
+ *   routes={routes}
+ *   initialEntries={["/", "/users/42"]}
+ *   initialIndex={1}
+ * />
+ * ```
+ */
+const MemoryRouter = ({
+  initialEntries,
+  initialIndex,
+  maxEntries,
+  ...props
+}: MemoryRouterProps) => {
+  // Entries only seed the history on first render
+  const [history] = useState(() =>
+    createMemoryHistory({ initialEntries, initialIndex, maxEntries })
+  );
+
+  return <RouterProvider {...props} history={history} />;
+};
+
+MemoryRouter.displayName = "MemoryRouter";
+
+export default MemoryRouter;
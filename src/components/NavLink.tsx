@@ -4,7 +4,9 @@ import {
   type MouseEvent as ReactMouseEvent,
 } from "react";
 import { useLocation } from "../hooks/useLocation";
+import { useHref } from "../hooks/useHref";
 import { useRouter } from "../hooks/useRouter";
+import { isExternalUrl } from "../utils/path";
 import type { Location, NavLinkProps, RouteMatch } from "../types";
 
 /**
@@ -68,6 +70,9 @@ const defaultIsActive = (
  *   Profile
  * </NavLink>
  *
+ * // Named route
+ * <NavLink to={{ name: "settings" }}>Settings</NavLink>
+ *
  * // Exact matching with end prop
  * <NavLink to="/" end activeClassName="active">Home</NavLink>
  *
@@ -113,8 +118,9 @@ const NavLink = forwardRef<HTMLAnchorElement, NavLinkProps>(
     },
     ref
   ) => {
-    const { navigate, pathname, matches } = useRouter();
+    const { navigate, pathname, matches, pathTo } = useRouter();
     const location = useLocation();
+    const href = useHref(to);
 
     // Determine active state
     let isActive: boolean;
@@ -125,8 +131,12 @@ const NavLink = forwardRef<HTMLAnchorElement, NavLinkProps>(
         matches.length > 0 ? matches[matches.length - 1] : null;
       isActive = customIsActive(currentMatch, location as Location);
     } else {
-      // Use default matching
-      isActive = defaultIsActive(pathname, to, end, caseSensitive);
+      // Use default matching - named routes on their pathname alone
+      const toPath =
+        typeof to === "string"
+          ? to
+          : pathTo({ name: to.name, params: to.params });
+      isActive = defaultIsActive(pathname, toPath, end, caseSensitive);
     }
 
     // Compute class names
@@ -141,7 +151,7 @@ const NavLink = forwardRef<HTMLAnchorElement, NavLinkProps>(
       : undefined;
 
     // External link check
-    const isExternal = /^https?:\/\//i.test(to);
+    const isExternal = typeof to === "string" && isExternalUrl(to);
 
     const handleClick = (event: ReactMouseEvent<HTMLAnchorElement>) => {
       onClick?.(event);
@@ -167,7 +177,7 @@ const NavLink = forwardRef<HTMLAnchorElement, NavLinkProps>(
     return (
       <a
         ref={ref}
-        href={to}
+        href={href}
         onClick={handleClick}
         className={computedClassName}
         style={computedStyle}
@@ -1,7 +1,7 @@
 import { type ReactNode, Children, isValidElement, Suspense } from "react";
 import RouterProvider from "../context/RouterProvider";
 import createRouter from "../core/createRouter";
-import type { Route as RouteType } from "../types";
+import type { History, Route as RouteType, TrailingSlash } from "../types";
 import { Route, RouteProps } from "./route";
 
 /**
@@ -25,15 +25,22 @@ function extractRoutesFromJSX(children: ReactNode): RouteType[] {
 
         const route: RouteType = {
           path: props.path,
+          name: props.name,
           component: props.component,
           // Pass through all route configuration options
           index: props.index,
           lazy: props.lazy,
           loader: props.loader,
           errorElement: props.errorElement,
+          notFound: props.notFound,
           redirectTo: props.redirectTo,
           guard: props.guard,
+          canLeave: props.canLeave,
           meta: props.meta,
+          caseSensitive: props.caseSensitive,
+          params: props.params,
+          searchSchema: props.searchSchema,
+          validateSearch: props.validateSearch,
         };
 
         // Handle nested routes
@@ -62,6 +69,12 @@ interface RouterProps {
   basename?: string;
   /** Fallback element shown during lazy loading */
   fallback?: ReactNode;
+  /** History instance to use (e.g. createHashHistory()) */
+  history?: History;
+  /** Match static segments case-sensitively (default: true) */
+  caseSensitive?: boolean;
+  /** Redirect to the canonical trailing slash form (default: "ignore") */
+  trailingSlash?: TrailingSlash;
 }
 
 /**
@@ -116,7 +129,14 @@ interface RouterProps {
  * </Router>
  * ```
  */
-const Router = ({ children, basename, fallback }: RouterProps) => {
+const Router = ({
+  children,
+  basename,
+  fallback,
+  history,
+  caseSensitive,
+  trailingSlash,
+}: RouterProps) => {
   const routes = extractRoutesFromJSX(children);
 
   const content = (
@@ -124,6 +144,9 @@ const Router = ({ children, basename, fallback }: RouterProps) => {
       routes={createRouter(routes)}
       basename={basename}
       fallbackElement={fallback as any}
+      history={history}
+      caseSensitive={caseSensitive}
+      trailingSlash={trailingSlash}
     />
   );
 
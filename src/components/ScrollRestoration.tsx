@@ -0,0 +1,144 @@
+import { useEffect, useLayoutEffect, useRef } from "react";
+import { useRouter } from "../hooks/useRouter";
+import type { Location, RouteMatch, ScrollRestorationProps } from "../types";
+import {
+  getElementScrollKey,
+  readScrollPositions,
+  saveScrollPositions,
+  SCROLL_RESTORATION_ID_ATTRIBUTE,
+  SCROLL_STORAGE_KEY,
+  ScrollPosition,
+} from "../utils/scroll";
+
+/**
+ * Elements opted into restoration with `data-scroll-restoration-id`
+ */
+const getRestorableElements = (): HTMLElement[] =>
+  Array.from(
+    document.querySelectorAll<HTMLElement>(
+      `[${SCROLL_RESTORATION_ID_ATTRIBUTE}]`
+    )
+  );
+
+/**
+ * ScrollRestoration - saves and restores window scroll per history entry
+ *
+ * Positions are kept in sessionStorage, so they survive reloads.
+ * Scroll containers marked with `data-scroll-restoration-id` are saved
+ * and restored along with the window.
+ * Back/forward navigations restore the saved position once the route
+ * rendered and its loaders resolved. New entries scroll to the top, or
+ * to their hash target, unless navigated with `preventScrollReset`.
+ *
+ * Render it once, in the root layout.
+ *
+ * @example
+ * ```tsx
+ * function RootLayout() {
+ *   return (
+ *     <>
+ *       <Header />
+ *       <Outlet />
+ *       <ScrollRestoration />
+ *     </>
+ *   );
+ * }
+ *
+ * // Restore a scrolling panel too
+ * <main data-scroll-restoration-id="main">
+ *   <Outlet />
+ * </main>
+ *
+ * // Restore by pathname instead of per history entry
+ * <ScrollRestoration getKey={(location) => location.pathname} />
+ * ```
+ */
+const ScrollRestoration = ({
+  getKey,
+  storageKey = SCROLL_STORAGE_KEY,
+}: ScrollRestorationProps) => {
+  const { location, matches, registerScrollRestorer } = useRouter();
+  const getKeyRef = useRef(getKey);
+  const currentRef = useRef({ location, matches });
+
+  useEffect(() => {
+    getKeyRef.current = getKey;
+  }, [getKey]);
+
+  useEffect(() => {
+    currentRef.current = { location, matches };
+  }, [location, matches]);
+
+  // Registered during layout so the router restores the first render too
+  useLayoutEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const keyFor = (location: Location, matches: RouteMatch[]) =>
+      getKeyRef.current?.(location, matches) ?? location.key;
+
+    const save = (location: Location, matches: RouteMatch[]) => {
+      const key = keyFor(location, matches);
+      const updates: Record<string, ScrollPosition> = {
+        [key]: { left: window.scrollX, top: window.scrollY },
+      };
+      getRestorableElements().forEach((element) => {
+        const id = element.getAttribute(SCROLL_RESTORATION_ID_ATTRIBUTE)!;
+        updates[getElementScrollKey(key, id)] = {
+          left: element.scrollLeft,
+          top: element.scrollTop,
+        };
+      });
+      saveScrollPositions(storageKey, updates);
+    };
+
+    // Take over from the browser's own restoration
+    const { scrollRestoration } = window.history;
+    window.history.scrollRestoration = "manual";
+
+    const unregister = registerScrollRestorer({
+      managesWindow: true,
+      save,
+      restore: ({ location, matches, action, preventScrollReset }) => {
+        const key = keyFor(location, matches);
+        const positions = readScrollPositions(storageKey);
+
+        getRestorableElements().forEach((element) => {
+          const id = element.getAttribute(SCROLL_RESTORATION_ID_ATTRIBUTE)!;
+          const saved = positions[getElementScrollKey(key, id)];
+          if (action === "POP" && saved) {
+            element.scrollTo(saved.left, saved.top);
+          } else if (!preventScrollReset) {
+            element.scrollTo(0, 0);
+          }
+        });
+
+        // The router scrolls new entries to the top or their hash target
+        if (action !== "POP") return false;
+
+        const saved = positions[key];
+        if (!saved) return false;
+
+        window.scrollTo(saved.left, saved.top);
+        return true;
+      },
+    });
+
+    // Reloads and leaving the page bypass the router
+    const handlePageHide = () => {
+      save(currentRef.current.location, currentRef.current.matches);
+    };
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      unregister();
+      window.removeEventListener("pagehide", handlePageHide);
+      window.history.scrollRestoration = scrollRestoration;
+    };
+  }, [registerScrollRestorer, storageKey]);
+
+  return null;
+};
+
+ScrollRestoration.displayName = "ScrollRestoration";
+
+export default ScrollRestoration;
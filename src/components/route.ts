@@ -1,14 +1,24 @@
 import { ComponentType, LazyExoticComponent, ReactElement } from "react";
-import type { RouteGuard, RouteLoader, RouteMeta } from "../types";
+import type {
+  LeaveGuard,
+  ParamConstraint,
+  RouteGuard,
+  RouteLoader,
+  RouteMeta,
+  SearchSchema,
+  ValidateSearch,
+} from "../types";
 
 /**
  * Route component props for declarative routing
  */
 export interface RouteProps {
-  /** Path pattern(s) for the route */
-  path: string | string[];
+  /** Path pattern(s) for the route (omitted for index routes) */
+  path?: string | string[];
+  /** Unique name to navigate to the route with */
+  name?: string;
   /** Component to render when route matches */
-  component: ReactElement;
+  component?: ReactElement;
   /** Nested route children */
   children?: ReactElement<RouteProps> | ReactElement<RouteProps>[];
   /** Index route - renders when parent path matches exactly */
@@ -19,14 +29,24 @@ export interface RouteProps {
   loader?: RouteLoader;
   /** Error boundary element */
   errorElement?: ReactElement;
+  /** Not-found element, rendered in the Outlet when no child matches */
+  notFound?: ReactElement;
   /** Redirect to another path */
   redirectTo?: string;
   /** Route guard function */
   guard?: RouteGuard;
+  /** Leave guard function */
+  canLeave?: LeaveGuard;
   /** Route metadata */
   meta?: RouteMeta;
-  /** Case-sensitive matching */
+  /** Case-sensitive matching (overrides the router) */
   caseSensitive?: boolean;
+  /** Param constraints */
+  params?: Record<string, ParamConstraint>;
+  /** Search param parsers, see `searchParam` */
+  searchSchema?: SearchSchema;
+  /** Custom search validation */
+  validateSearch?: ValidateSearch;
 }
 
 /**
@@ -38,15 +58,39 @@ export interface RouteProps {
  * // Basic route
  * <Route path="/users/:id" component={<UserProfile />} />
  *
+ * // Constrained params - /users/settings falls through to other routes
+ * <Route path="/users/:id(\d+)" component={<UserProfile />} />
+ * <Route path="/posts/:slug" params={{ slug: /^[a-z0-9-]+$/ }} component={<Post />} />
+ *
+ * // Named route - <Link to={{ name: "user", params: { id: 42 } }}>
+ * <Route path="/users/:id" name="user" component={<UserProfile />} />
+ *
+ * // Typed search params - /products?page=2
+ * <Route
+ *   path="/products"
+ *   searchSchema={{ page: searchParam.number({ default: 1 }) }}
+ *   component={<Products />}
+ * />
+ *
  * // Multiple paths
  * <Route path={["/about", "/about-us"]} component={<About />} />
  *
  * // Nested routes
  * <Route path="/dashboard" component={<Dashboard />}>
+ *   <Route index component={<Overview />} />
  *   <Route path="settings" component={<Settings />} />
  *   <Route path="profile" component={<Profile />} />
  * </Route>
  *
+ * // Not-found element, rendered inside the project shell
+ * <Route
+ *   path="/projects/:id"
+ *   component={<ProjectShell />}
+ *   notFound={<ProjectNotFound />}
+ * >
+ *   <Route index component={<ProjectOverview />} />
+ * </Route>
+ *
  * // With loader
  * <Route
  *   path="/user/:id"
@@ -61,6 +105,13 @@ export interface RouteProps {
  *   guard={() => isAdmin() || '/login'}
  * />
  *
+ * // With leave guard
+ * <Route
+ *   path="/checkout"
+ *   component={<Checkout />}
+ *   canLeave={() => confirm('Abandon your order?')}
+ * />
+ *
  * // With metadata
  * <Route
  *   path="/about"
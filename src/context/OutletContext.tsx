@@ -1,4 +1,5 @@
 import { createContext, ReactNode, useContext } from "react";
+import { getNotFoundElement } from "../core/matcher";
 import type { Route, RouteMatch } from "../types";
 
 /**
@@ -22,6 +23,12 @@ export interface OutletContextType {
  */
 export const OutletDataContext = createContext<OutletContextType | null>(null);
 
+/**
+ * Match of the route whose element is rendering
+ * Lets hooks such as useLoaderData read the data of their own route
+ */
+export const RouteMatchContext = createContext<RouteMatch | null>(null);
+
 /**
  * Hook to access outlet context
  */
@@ -68,4 +75,48 @@ export function OutletProvider({
   );
 }
 
+/**
+ * Renders a match chain, nesting each route inside its parent's Outlet
+ * Routes without a component (route groups) render their child directly
+ *
+ * @param matches - Match chain from the outermost route
+ * @param leafOutlet - Content of the deepest route's Outlet, e.g. its not-found element
+ */
+export function renderMatches(
+  matches: RouteMatch[],
+  leafOutlet?: ReactNode
+): ReactNode {
+  return matches.reduceRight<ReactNode>((outlet, match, index) => {
+    const element = match.route.component ? (
+      <RouteMatchContext.Provider value={match}>
+        {match.route.component}
+      </RouteMatchContext.Provider>
+    ) : null;
+
+    if (index === matches.length - 1 && leafOutlet === undefined) {
+      return element;
+    }
+
+    return (
+      <OutletProvider
+        outlet={outlet}
+        childRoutes={match.route.children}
+        matches={matches.slice(0, index + 1)}
+        depth={index}
+      >
+        {element ?? outlet}
+      </OutletProvider>
+    );
+  }, leafOutlet ?? null);
+}
+
+/**
+ * Renders a not-found scope, with the not-found element of its deepest
+ * route in that route's Outlet
+ */
+export function renderNotFound(scope: RouteMatch[]): ReactNode {
+  const { route } = scope[scope.length - 1];
+  return renderMatches(scope, getNotFoundElement(route) ?? null);
+}
+
 export default OutletDataContext;
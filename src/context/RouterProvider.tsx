@@ -3,31 +3,66 @@ import React, {
   Suspense,
   useCallback,
   useEffect,
+  useLayoutEffect,
   useMemo,
   useRef,
   useState,
   useTransition,
 } from "react";
-import join from "url-join";
+import {
+  createBrowserHistory,
+  createLocation,
+  createMemoryHistory,
+  createNavigationHistory,
+  createPath,
+  isNavigationApiSupported,
+} from "../core/history";
+import {
+  compileRoutes,
+  findNotFoundScope,
+  generateNamedPath,
+  matchNotFoundScopes,
+  matchRouteBranches,
+  matchRoutes,
+  type MatchOptions,
+} from "../core/matcher";
+import { readQuery, validateRouteSearch } from "../core/search";
 import Page404 from "../pages/404";
 import type {
+  History,
+  HistoryAction,
   Location,
   MiddlewareContext,
+  MiddlewareResult,
   NavigateFunction,
   NavigateOptions,
+  NavigateTarget,
+  NavigationBlocker,
   Route,
   RouteMatch,
   RouteMeta,
   RouterContextType,
   RouterProviderProps,
+  ScrollRestorer,
+  ScrollUpdate,
 } from "../types";
 import {
   createRouterError,
+  isNotFoundError,
   RouterErrorCode,
   RouterErrors,
+  RouterKitError,
 } from "../utils/error/errors";
 import { executeMiddlewareChain } from "../utils/middleware";
-import { OutletProvider } from "./OutletContext";
+import {
+  applyTrailingSlash,
+  hasBasename,
+  isExternalUrl,
+  joinBasename,
+  stripBasename,
+} from "../utils/path";
+import { scrollToHash } from "../utils/scroll";
+import { renderMatches, renderNotFound } from "./OutletContext";
 import RouterContext from "./RouterContext";
 
 /**
@@ -35,7 +70,12 @@ import RouterContext from "./RouterContext";
  */
 const validateUrl = (url: string): boolean => {
   try {
-    new URL(url, window.location.origin);
+    new URL(
+      url,
+      typeof window !== "undefined"
+        ? window.location.origin
+        : "http://localhost"
+    );
     return true;
   } catch {
     return false;
@@ -43,134 +83,35 @@ const validateUrl = (url: string): boolean => {
 };
 
 /**
- * Normalize path to string (handles array paths)
- * Preserves '/' as a special case for root path
- */
-const normalizePath = (path: string | string[] | undefined): string => {
-  if (path === undefined) return "";
-  if (Array.isArray(path)) {
-    return path
-      .map((p) => {
-        // Keep "/" as empty string to represent root
-        if (p === "/") return "";
-        return p.startsWith("/") ? p.slice(1) : p;
-      })
-      .join("|");
-  }
-  // Keep "/" as empty string to represent root
-  if (path === "/") return "";
-  return path.startsWith("/") ? path.slice(1) : path;
-};
-
-/**
- * Get the first path from a path (string or array)
- */
-const getFirstPath = (path: string | string[] | undefined): string => {
-  if (path === undefined) return "";
-  if (Array.isArray(path)) {
-    return path[0] || "";
-  }
-  // Handle pipe-separated paths (already normalized)
-  if (path.includes("|")) {
-    return path.split("|")[0];
-  }
-  return path;
-};
-
-/**
- * Creates a unique key for location tracking
+ * Snapshot of the history state the router renders from
  */
-const createKey = (): string => {
-  return Math.random().toString(36).substring(2, 10);
-};
+interface LocationSnapshot {
+  location: Location;
+  /** Action that produced the location */
+  action: HistoryAction;
+  /** Position of the location in the history stack */
+  index: number;
+}
 
 /**
- * Gets current location from window
+ * Reads location, action and index from a history in one go
  */
-const getCurrentLocation = (): Location => {
-  if (typeof window === "undefined") {
-    return {
-      pathname: "/",
-      search: "",
-      hash: "",
-      state: null,
-      key: "default",
-    };
-  }
-  return {
-    pathname: window.location.pathname,
-    search: window.location.search,
-    hash: window.location.hash,
-    state: window.history.state,
-    key: createKey(),
-  };
-};
+const readSnapshot = (history: History): LocationSnapshot => ({
+  location: history.location,
+  action: history.action,
+  index: history.index,
+});
 
 /**
- * Extracts params from a path using a pattern
+ * Creates a Request object for a history location
  */
-const extractParams = (
-  pattern: string,
-  pathname: string,
-  partialMatch: boolean = false
-): Record<string, string> | null => {
-  // Special case: root path matching
-  const normalizedPattern = pattern === "/" ? "" : pattern;
-  const normalizedPathname = pathname === "/" ? "" : pathname;
-
-  const patternParts = normalizedPattern.split("/").filter(Boolean);
-  const pathParts = normalizedPathname.split("/").filter(Boolean);
-
-  // Both empty means root path match
-  if (patternParts.length === 0 && pathParts.length === 0) {
-    return {};
-  }
-
-  // If partial match is allowed, we only need to match up to the pattern length
-  // The route matches if it consumes a prefix of the URL
-  if (partialMatch) {
-    if (patternParts.length > pathParts.length) return null;
-  } else if (patternParts.length !== pathParts.length) {
-    // Exact match logic (unless catch-all)
-    // Check for catch-all pattern
-    const hasCatchAll = patternParts.some((p) => p.startsWith("*"));
-    if (!hasCatchAll) return null;
-  }
-
-  const params: Record<string, string> = {};
-
-  for (let i = 0; i < patternParts.length; i++) {
-    const patternPart = patternParts[i];
-    const pathPart = pathParts[i];
-
-    // Catch-all segment (*splat or **)
-    if (patternPart.startsWith("*")) {
-      const paramName = patternPart.slice(1) || "splat";
-      // For partial match, catch-all consumes everything remaining?
-      // Or just the rest of what was requested?
-      // Usually catch-all consumes everything, so it behaves like exact match + capture
-      params[paramName] = pathParts.slice(i).join("/");
-      return params;
-    }
-
-    // Dynamic segment (:param)
-    if (patternPart.startsWith(":")) {
-      const paramName = patternPart.slice(1);
-      // Handle optional params (:param?)
-      if (paramName.endsWith("?")) {
-        params[paramName.slice(0, -1)] = pathPart ?? "";
-      } else {
-        if (pathPart === undefined) return null;
-        params[paramName] = pathPart;
-      }
-      continue;
-    }
-
-    // Static segment - must match exactly
-    if (patternPart !== pathPart) return null;
-  }
-
-  return params;
+const createLocationRequest = (
+  history: History,
+  location: Location
+): Request => {
+  const origin =
+    typeof window !== "undefined" ? window.location.origin : "http://localhost";
+  return new Request(new URL(history.createHref(location), origin).href);
 };
 
 /**
@@ -182,330 +123,310 @@ interface MatchResult {
   params: Record<string, string>;
   matches: RouteMatch[];
   meta: RouteMeta | null;
+  /** Search params parsed by the matched routes' schemas */
+  query?: Record<string, any>;
   redirect?: string;
   error?: Error;
-  loader?: {
+  /** Loaders of the matched chain, outermost first */
+  loaders?: {
+    pattern: string;
     fn: (args: any) => Promise<any> | any;
     params: Record<string, string>;
-  };
+    query: Record<string, any>;
+  }[];
   page404Component?: ReactNode;
   errorElement?: ReactNode;
   middlewareResult?: { type: "continue" | "redirect" | "block"; to?: string };
 }
 
 /**
- * Match a single path pattern against current pathname (pure function)
+ * Outcome of a route's redirect, search, middleware and guard checks
+ * Routes that continue carry the search parsed by their schemas
+ */
+type RouteCheck =
+  | { type: "continue"; query: Record<string, any> }
+  | { type: "block" }
+  | { type: "redirect"; to: string; middlewareResult?: MiddlewareResult }
+  | { type: "error"; error: Error };
+
+/**
+ * Runs redirect, search validation, middleware and guard of a matched route
+ * Synchronous for routes without middleware or guard
  */
-const matchPathPattern = (
-  routePattern: string,
+const checkRoute = (
+  match: RouteMatch,
   currentPath: string,
-  partialMatch: boolean = false
-): {
-  match: boolean;
-  params: Record<string, string>;
-  pattern: string;
-} | null => {
-  const patterns = routePattern.split("|");
-
-  for (const pat of patterns) {
-    // Handle root path pattern
-    const normalizedPat = pat === "" ? "/" : pat;
-    const extractedParams = extractParams(
-      normalizedPat,
-      currentPath,
-      partialMatch
+  searchString: string,
+  parentQuery: Record<string, any>,
+  request?: Request,
+  signal?: AbortSignal
+): RouteCheck | Promise<RouteCheck> => {
+  const { route } = match;
+
+  // Handle redirects
+  if (route.redirectTo) {
+    return { type: "redirect", to: route.redirectTo };
+  }
+
+  // Invalid search params render the route's errorElement
+  let query: Record<string, any>;
+  try {
+    query = validateRouteSearch(
+      route,
+      parentQuery,
+      new URLSearchParams(searchString)
     );
-    if (extractedParams !== null) {
-      return { match: true, params: extractedParams, pattern: normalizedPat };
-    }
+  } catch (error) {
+    return {
+      type: "error",
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
+
+  if (!route.guard && !(route.middleware && route.middleware.length > 0)) {
+    return { type: "continue", query };
   }
-  return null;
+
+  return runRouteHandlers(
+    match,
+    currentPath,
+    searchString,
+    query,
+    request,
+    signal
+  );
 };
 
 /**
- * Async function to match routes with middleware and guard support
- * Handles both sync and async guards/middleware
+ * Runs the middleware chain and guard of a route (supports async)
  */
-const matchRoutesAsync = async (
-  routesList: Route[],
+const runRouteHandlers = async (
+  match: RouteMatch,
   currentPath: string,
-  parentPath: string = "/",
-  searchString: string = "",
-  collectedMatches: RouteMatch[] = [],
+  searchString: string,
+  query: Record<string, any>,
   request?: Request,
   signal?: AbortSignal
-): Promise<MatchResult> => {
-  const staticRoutes: Route[] = [];
-  const dynamicRoutes: Route[] = [];
-  const catchAllRoutes: Route[] = [];
-  let page404Component: ReactNode = null;
-
-  for (const route of routesList) {
-    const rawPath = route.path || "";
-    const pathArray = Array.isArray(rawPath)
-      ? rawPath
-      : rawPath.includes("|")
-      ? rawPath.split("|")
-      : [rawPath];
-    const is404 = pathArray.some((p) => p === "404" || p === "/404");
-    if (is404) {
-      page404Component = route.component;
-      continue;
-    }
+): Promise<RouteCheck> => {
+  const { route, params } = match;
 
-    const hasCatchAll = pathArray.some((p) => p.includes("*"));
-    const hasDynamicParams = pathArray.some((p) => p.includes(":"));
+  try {
+    // Execute middleware chain (Chain of Responsibility pattern)
+    if (route.middleware && route.middleware.length > 0) {
+      const middlewareContext: MiddlewareContext = {
+        pathname: currentPath,
+        params,
+        search: searchString,
+        request,
+        signal,
+      };
 
-    if (hasCatchAll) {
-      catchAllRoutes.push(route);
-    } else if (hasDynamicParams) {
-      dynamicRoutes.push(route);
-    } else {
-      staticRoutes.push(route);
-    }
-  }
+      const middlewareResult = await executeMiddlewareChain(
+        route.middleware,
+        middlewareContext
+      );
 
-  // Priority: static > dynamic > catch-all
-  const orderedRoutes = [...staticRoutes, ...dynamicRoutes, ...catchAllRoutes];
-
-  for (const route of orderedRoutes) {
-    const normalizedRoutePath = normalizePath(route.path);
-    const firstPath = getFirstPath(route.path);
-    // Handle root path correctly
-    const fullPath =
-      firstPath === "/" || firstPath === ""
-        ? parentPath
-        : join(parentPath, `/${firstPath}`);
-    // Build full pattern for matching (handles multiple paths)
-    const fullPattern = normalizedRoutePath.includes("|")
-      ? normalizedRoutePath
-          .split("|")
-          .map((p) => {
-            // Handle empty string (root path) correctly
-            if (p === "") return parentPath;
-            return join(parentPath, `/${p}`);
-          })
-          .join("|")
-      : fullPath;
-
-    // Enable partial matching if route has children
-    const isParent = route.children && route.children.length > 0;
-    const matchResult = matchPathPattern(fullPattern, currentPath, isParent);
-
-    if (matchResult) {
-      // Handle redirects
-      if (route.redirectTo) {
+      if (middlewareResult.type === "redirect") {
         return {
-          component: null,
-          pattern: matchResult.pattern,
-          params: matchResult.params,
-          matches: collectedMatches,
-          meta: null,
-          redirect: route.redirectTo,
-          page404Component,
+          type: "redirect",
+          to: middlewareResult.to || "/",
+          middlewareResult,
         };
       }
-
-      // Execute middleware chain (Chain of Responsibility pattern)
-      if (route.middleware && route.middleware.length > 0) {
-        const middlewareContext: MiddlewareContext = {
-          pathname: currentPath,
-          params: matchResult.params,
-          search: searchString,
-          request,
-          signal,
-        };
-
-        try {
-          const middlewareResult = await executeMiddlewareChain(
-            route.middleware,
-            middlewareContext
-          );
-
-          // Handle middleware redirect
-          if (middlewareResult.type === "redirect") {
-            return {
-              component: null,
-              pattern: matchResult.pattern,
-              params: matchResult.params,
-              matches: collectedMatches,
-              meta: null,
-              redirect: middlewareResult.to || "/",
-              page404Component,
-              errorElement: route.errorElement,
-              middlewareResult,
-            };
-          }
-
-          // Handle middleware block
-          if (middlewareResult.type === "block") {
-            continue; // Skip this route
-          }
-        } catch (error) {
-          // Middleware threw an error - return error result
-          return {
-            component: null,
-            pattern: matchResult.pattern,
-            params: matchResult.params,
-            matches: collectedMatches,
-            meta: null,
-            error: error instanceof Error ? error : new Error(String(error)),
-            page404Component,
-            errorElement: route.errorElement,
-          };
-        }
+      if (middlewareResult.type === "block") {
+        return { type: "block" };
       }
+    }
 
-      // Handle guards (supports async)
-      if (route.guard) {
-        const guardArgs = {
+    // Handle guards - can return string (redirect), boolean, or Promise of either
+    if (route.guard) {
+      const guardResult = await Promise.resolve(
+        route.guard({
           pathname: currentPath,
-          params: matchResult.params,
+          params,
           search: searchString,
+          query,
           request,
           signal,
-        };
+        })
+      );
 
-        try {
-          // Handle both sync and async guards
-          const guardResult = await Promise.resolve(route.guard(guardArgs));
-
-          // Guard can return string (redirect), boolean, or Promise of either
-          if (typeof guardResult === "string") {
-            return {
-              component: null,
-              pattern: matchResult.pattern,
-              params: matchResult.params,
-              matches: collectedMatches,
-              meta: null,
-              redirect: guardResult,
-              page404Component,
-              errorElement: route.errorElement,
-            };
-          }
-          if (guardResult === false) {
-            continue; // Skip this route
-          }
-        } catch (error) {
-          // Guard threw an error - return error result
-          return {
-            component: null,
-            pattern: matchResult.pattern,
-            params: matchResult.params,
-            matches: collectedMatches,
-            meta: null,
-            error: error instanceof Error ? error : new Error(String(error)),
-            page404Component,
-            errorElement: route.errorElement,
-          };
-        }
+      if (typeof guardResult === "string") {
+        return { type: "redirect", to: guardResult };
+      }
+      if (guardResult === false) {
+        return { type: "block" };
       }
+    }
+  } catch (error) {
+    return {
+      type: "error",
+      error: error instanceof Error ? error : new Error(String(error)),
+    };
+  }
 
-      // Build match object
-      const newMatch: RouteMatch = {
-        route,
-        params: matchResult.params,
-        pathname: currentPath,
-        pathnameBase: parentPath,
-        pattern: matchResult.pattern,
-      };
+  return { type: "continue", query };
+};
+
+/**
+ * Matches routes with middleware and guard support
+ *
+ * Tries the branches of the shared matcher in rank order. A route whose
+ * middleware or guard blocks rejects the whole branch, and matching
+ * continues with the next one. When no branch matches, the closest
+ * not-found scope renders, checked the same way.
+ *
+ * Returns synchronously unless a route on the way has middleware or a
+ * guard, so plain route tables resolve without waiting a tick.
+ */
+const resolveRoutes = (
+  routesList: Route[],
+  currentPath: string,
+  searchString: string = "",
+  request?: Request,
+  signal?: AbortSignal,
+  options?: MatchOptions
+): MatchResult | Promise<MatchResult> => {
+  const compiled = compileRoutes(routesList);
+  const page404Component = compiled.notFound?.component ?? null;
+  // Layouts shared by several branches are only checked once
+  const checks = new Map<string, RouteCheck>();
+  const routeIds = new Map<Route, number>();
+
+  const checkKeyOf = (match: RouteMatch): string => {
+    if (!routeIds.has(match.route)) {
+      routeIds.set(match.route, routeIds.size);
+    }
+    return `${routeIds.get(match.route)}:${match.pattern}`;
+  };
 
-      const newMatches = [...collectedMatches, newMatch];
+  /**
+   * Search parsed up to a checked route, the raw query before the first
+   */
+  const queryAt = (match?: RouteMatch): Record<string, any> => {
+    const check = match && checks.get(checkKeyOf(match));
+    return check?.type === "continue" ? check.query : readQuery(searchString);
+  };
 
-      // Handle nested routes with Outlet support
-      if (route.children && route.children.length > 0) {
-        const childResult = await matchRoutesAsync(
-          route.children,
+  /**
+   * Checks the routes of a chain, returning null when one of them blocks
+   */
+  const resolveChain = (
+    matches: RouteMatch[],
+    component: ReactNode,
+    from = 0
+  ): MatchResult | null | Promise<MatchResult | null> => {
+    for (let i = from; i < matches.length; i++) {
+      const match = matches[i];
+      const checkKey = checkKeyOf(match);
+
+      const check =
+        checks.get(checkKey) ??
+        checkRoute(
+          match,
           currentPath,
-          fullPath,
           searchString,
-          newMatches,
+          // Routes see the search parsed by their parents' schemas
+          queryAt(matches[i - 1]),
           request,
           signal
         );
-
-        if (childResult.component || childResult.redirect) {
-          // Wrap parent component with OutletProvider to render children via Outlet
-          return {
-            component: (
-              <OutletProvider
-                outlet={childResult.component}
-                childRoutes={route.children}
-                matches={newMatches}
-                depth={parentPath.split("/").filter(Boolean).length}
-              >
-                {route.component}
-              </OutletProvider>
-            ),
-            pattern: matchResult.pattern,
-            params: { ...matchResult.params, ...childResult.params },
-            matches: childResult.matches,
-            meta: route.meta || childResult.meta,
-            loader: route.loader
-              ? { fn: route.loader, params: matchResult.params }
-              : childResult.loader,
-            page404Component: page404Component || childResult.page404Component,
-            errorElement: route.errorElement || childResult.errorElement,
-          };
-        }
+      if (check instanceof Promise) {
+        // Continue from this route once its checks settled
+        return check.then((settled) => {
+          checks.set(checkKey, settled);
+          return resolveChain(matches, component, i);
+        });
       }
+      checks.set(checkKey, check);
 
-      // If we are here, children were checked but none matched (or didn't return a component).
-      // We must check if THIS route is an EXACT match for the current path.
-      // If it was only a partial match (prefix), and no children matched, then this route is NOT the correct match.
-      // Exceptions:
-      // 1. If it's a catch-all route (handled by exact match logic usually, or explicitly)
-      // 2. If the user intentionally wants to map a prefix to a component without children (unlikely if children prop exists)
-
-      const isExactMatch = matchPathPattern(fullPattern, currentPath, false);
+      if (check.type === "block") return null;
 
-      if (isExactMatch) {
+      if (check.type === "redirect" || check.type === "error") {
         return {
-          component: route.component,
-          pattern: matchResult.pattern,
-          params: matchResult.params,
-          matches: newMatches,
-          meta: route.meta || null,
-          loader: route.loader
-            ? { fn: route.loader, params: matchResult.params }
-            : undefined,
+          component: null,
+          pattern: match.pattern,
+          params: match.params,
+          matches: matches.slice(0, i),
+          meta: null,
+          query: queryAt(matches[i - 1]),
+          redirect: check.type === "redirect" ? check.to : undefined,
+          middlewareResult:
+            check.type === "redirect" ? check.middlewareResult : undefined,
+          error: check.type === "error" ? check.error : undefined,
           page404Component,
-          errorElement: route.errorElement,
+          errorElement: match.route.errorElement,
         };
       }
-
-      // If not exact match and no children matched, this partial match is invalid.
-      // Fall through to continue loop.
     }
 
-    // Check children routes (for routes without matching parent)
-    if (route.children) {
-      const childResult = await matchRoutesAsync(
-        route.children,
-        currentPath,
-        fullPath,
-        searchString,
-        collectedMatches,
-        request,
-        signal
-      );
-      if (childResult.component || childResult.redirect) {
-        return {
-          ...childResult,
-          page404Component: page404Component || childResult.page404Component,
-        };
+    const leaf = matches[matches.length - 1];
+    // Every loader on the chain runs, like prefetchLoaderData on the server
+    const loaderMatches = matches.filter((match) => match.route.loader);
+
+    return {
+      component,
+      pattern: leaf.pattern,
+      params: leaf.params,
+      matches,
+      // The deepest route's meta wins, like on the server
+      meta:
+        [...matches].reverse().find((match) => match.route.meta)?.route.meta ??
+        null,
+      query: queryAt(leaf),
+      loaders:
+        loaderMatches.length > 0
+          ? loaderMatches.map((match) => ({
+              pattern: match.pattern,
+              fn: match.route.loader!,
+              params: match.params,
+              query: queryAt(match),
+            }))
+          : undefined,
+      page404Component,
+      errorElement: matches.find((match) => match.route.errorElement)?.route
+        .errorElement,
+    };
+  };
+
+  /**
+   * Resolves the first chain that no route blocks, or the fallback
+   */
+  const resolveFirst = (
+    chains: Iterator<RouteMatch[]>,
+    render: (matches: RouteMatch[]) => ReactNode,
+    fallback: () => MatchResult | Promise<MatchResult>
+  ): MatchResult | Promise<MatchResult> => {
+    for (let next = chains.next(); !next.done; next = chains.next()) {
+      const result = resolveChain(next.value, render(next.value));
+      if (result instanceof Promise) {
+        return result.then(
+          (settled) => settled ?? resolveFirst(chains, render, fallback)
+        );
       }
+      if (result) return result;
     }
-  }
-
-  return {
-    component: null,
-    pattern: "",
-    params: {},
-    matches: collectedMatches,
-    meta: null,
-    page404Component,
+    return fallback();
   };
+
+  return resolveFirst(
+    matchRouteBranches(compiled, currentPath, options),
+    (matches) => renderMatches(matches),
+    // No route matched: the closest not-found element renders in its layout
+    () =>
+      resolveFirst(
+        matchNotFoundScopes(compiled, currentPath, options),
+        renderNotFound,
+        () => ({
+          component: null,
+          pattern: "",
+          params: {},
+          matches: [],
+          meta: null,
+          page404Component,
+        })
+      )
+  );
 };
 
 /**
@@ -525,9 +446,43 @@ const RouterProvider = ({
   routes,
   basename = "",
   fallbackElement,
+  history: historyProp,
+  initialEntries,
+  initialIndex,
+  navigationApi = true,
+  hashScrollOffset = 0,
+  caseSensitive = true,
+  trailingSlash = "ignore",
 }: RouterProviderProps) => {
-  const [location, setLocation] = useState<Location>(getCurrentLocation);
-  const [loaderData, setLoaderData] = useState<any>(null);
+  // Created only without a history prop, so embedded routers (e.g.
+  // MemoryRouter) never touch the window's history.
+  // initialEntries only seed the history on first creation
+  const defaultHistoryRef = useRef<History | null>(null);
+  if (!historyProp && !defaultHistoryRef.current) {
+    if (initialEntries) {
+      defaultHistoryRef.current = createMemoryHistory({
+        initialEntries,
+        initialIndex,
+      });
+    } else if (navigationApi && isNavigationApiSupported()) {
+      // Leave navigations outside the basename to the browser
+      defaultHistoryRef.current = createNavigationHistory({
+        shouldIntercept: (url) => hasBasename(url.pathname, basename),
+      });
+    } else {
+      defaultHistoryRef.current = createBrowserHistory();
+    }
+  }
+  const history = historyProp ?? defaultHistoryRef.current!;
+  const [snapshot, setSnapshot] = useState<LocationSnapshot>(() =>
+    readSnapshot(history)
+  );
+  const { location } = snapshot;
+  // Data of the loaders it was loaded for, by route pattern
+  const [loaded, setLoaded] = useState<{
+    loaders: MatchResult["loaders"];
+    data: Record<string, any>;
+  } | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [matchResult, setMatchResult] = useState<MatchResult>({
     component: null,
@@ -540,44 +495,190 @@ const RouterProvider = ({
   // Track initial route resolution to prevent 404 flash
   const [isResolving, setIsResolving] = useState(true);
   const [isPending, startTransition] = useTransition();
+  // Location key whose route matching finished
+  const [resolvedKey, setResolvedKey] = useState<string | null>(null);
 
-  const scrollPositions = useRef<Map<string, number>>(new Map());
   const isNavigatingRef = useRef(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Navigation API navigation waiting for route resolution
+  const pendingNavigationRef = useRef<{
+    key: string;
+    signal: AbortSignal;
+    settle: () => void;
+  } | null>(null);
+  // Location key the last route matching was started for
+  const matchingKeyRef = useRef<string | null>(null);
+  // Registered navigation blockers (useBlocker, usePrompt)
+  const blockersRef = useRef<Set<NavigationBlocker>>(new Set());
+  // Last history state the router accepted, used to revert blocked POPs
+  const acceptedRef = useRef<LocationSnapshot>(snapshot);
+  // Skip blocker checks for the next update (proceeding a blocked navigation)
+  const bypassBlockersRef = useRef(false);
+  // Ignore the next update (the revert of a blocked navigation)
+  const ignoreNextUpdateRef = useRef(false);
+  // Matches of the rendered route, consulted by leave guards
+  const matchesRef = useRef<RouteMatch[]>([]);
+  // Id of the latest leave guard check, older checks are discarded
+  const leaveCheckRef = useRef(0);
+  // Registered scroll restorers (ScrollRestoration)
+  const scrollRestorersRef = useRef<Set<ScrollRestorer>>(new Set());
+  // preventScrollReset of the navigation being performed
+  const preventScrollResetRef = useRef(false);
+  // Scroll options of the last accepted location
+  const scrollResetRef = useRef<{
+    key: string;
+    preventScrollReset: boolean;
+  } | null>(null);
+  // Location key scroll was last restored for
+  const restoredKeyRef = useRef<string | null>(null);
+  // Stops waiting for the hash target of the previous location
+  const stopHashScrollRef = useRef<(() => void) | null>(null);
+  const hashScrollOffsetRef = useRef(hashScrollOffset);
+  hashScrollOffsetRef.current = hashScrollOffset;
+
+  /**
+   * Marks a pending navigation as finished
+   * Without a key, settles whichever navigation is pending
+   */
+  const settleNavigation = useCallback((key?: string) => {
+    const pending = pendingNavigationRef.current;
+    if (pending && (key === undefined || pending.key === key)) {
+      pendingNavigationRef.current = null;
+      pending.settle();
+    }
+  }, []);
 
   /**
    * Normalize pathname by removing basename
    */
   const normalizePathname = useCallback(
-    (pathname: string): string => {
-      if (basename && pathname.startsWith(basename)) {
-        return pathname.slice(basename.length) || "/";
-      }
-      return pathname;
-    },
+    (pathname: string): string => stripBasename(pathname, basename),
     [basename]
   );
 
   /**
-   * Navigate to a new location
+   * Register a navigation blocker
    */
-  const navigate: NavigateFunction = useCallback(
-    (to: string | number, options?: NavigateOptions) => {
-      // Handle numeric (delta) navigation
-      if (typeof to === "number") {
-        window.history.go(to);
-        return;
+  const registerBlocker = useCallback((blocker: NavigationBlocker) => {
+    blockersRef.current.add(blocker);
+    return () => {
+      blockersRef.current.delete(blocker);
+    };
+  }, []);
+
+  /**
+   * Register a scroll restorer
+   */
+  const registerScrollRestorer = useCallback((restorer: ScrollRestorer) => {
+    scrollRestorersRef.current.add(restorer);
+    return () => {
+      scrollRestorersRef.current.delete(restorer);
+    };
+  }, []);
+
+  /**
+   * Last accepted location, relative to the basename
+   */
+  const readCurrentLocation = useCallback((): Location => {
+    const accepted = acceptedRef.current.location;
+    return {
+      ...accepted,
+      pathname: stripBasename(accepted.pathname, basename),
+    };
+  }, [basename]);
+
+  /**
+   * Matched routes with a leave guard that the next pathname exits
+   * Ordered innermost first
+   */
+  const getLeaveGuards = useCallback(
+    (nextPathname: string): RouteMatch[] => {
+      // Routes stay mounted while they are part of the next match chain,
+      // e.g. layouts (with or without a path) around the next route
+      let nextRoutes = new Set<Route>();
+      try {
+        const nextMatches = matchRoutes(routes, nextPathname, {
+          caseSensitive,
+        });
+        nextRoutes = new Set(nextMatches?.map(({ route }) => route));
+      } catch {
+        // Malformed URLs match no route
       }
 
-      // Normalize path
-      let targetPath = to;
-      if (!/^https?:\/\//i.test(to)) {
-        targetPath = to.startsWith("/") ? to : `/${to}`;
-        if (basename) {
-          targetPath = join(basename, targetPath);
+      return matchesRef.current
+        .filter(({ route }) => route.canLeave && !nextRoutes.has(route))
+        .reverse();
+    },
+    [routes, caseSensitive]
+  );
+
+  /**
+   * Run leave guards in order until one vetoes or redirects
+   * Resolves to true, false or a redirect path
+   */
+  const runLeaveGuards = useCallback(
+    async (
+      leaveGuards: RouteMatch[],
+      nextLocation: Location,
+      action: HistoryAction
+    ): Promise<boolean | string> => {
+      const currentLocation = readCurrentLocation();
+
+      for (const { route, params, pattern } of leaveGuards) {
+        try {
+          const result = await Promise.resolve(
+            route.canLeave!({ currentLocation, nextLocation, action, params })
+          );
+
+          if (typeof result === "string" || result === false) {
+            return result;
+          }
+        } catch (error) {
+          // A failing leave guard keeps the user on the route
+          const guardError = createRouterError(
+            RouterErrorCode.NAVIGATION_ABORTED,
+            `Leave guard of "${pattern}" failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            { pattern, error }
+          );
+          console.error(guardError.toConsoleMessage());
+          return false;
         }
       }
 
+      return true;
+    },
+    [readCurrentLocation]
+  );
+
+  /**
+   * Find the first registered blocker that wants to block a navigation
+   */
+  const findBlocker = useCallback(
+    (
+      nextLocation: Location,
+      action: HistoryAction
+    ): NavigationBlocker | undefined => {
+      if (blockersRef.current.size === 0) return undefined;
+
+      const currentLocation = readCurrentLocation();
+
+      return Array.from(blockersRef.current).find((blocker) =>
+        blocker.shouldBlock({ currentLocation, nextLocation, action })
+      );
+    },
+    [readCurrentLocation]
+  );
+
+  /**
+   * Push or replace a history entry without consulting blockers
+   */
+  const performNavigation = useCallback(
+    (to: string, options?: NavigateOptions) => {
+      // Normalize path
+      const targetPath = joinBasename(basename, to);
+
       // Validate URL
       if (!validateUrl(targetPath)) {
         RouterErrors.invalidRoute(to, "Invalid URL format");
@@ -585,37 +686,20 @@ const RouterProvider = ({
       }
 
       try {
-        // Save scroll position before navigation
-        if (!options?.preventScrollReset) {
-          scrollPositions.current.set(location.key, window.scrollY);
-        }
-
         isNavigatingRef.current = true;
 
+        // The history listener picks up the new location. Blockers were
+        // already consulted (or deliberately skipped) by the caller.
+        bypassBlockersRef.current = true;
+        preventScrollResetRef.current = Boolean(options?.preventScrollReset);
         if (options?.replace) {
-          window.history.replaceState(
-            { ...options?.state, key: createKey() },
-            "",
-            targetPath
-          );
+          history.replace(targetPath, options?.state);
         } else {
-          window.history.pushState(
-            { ...options?.state, key: createKey() },
-            "",
-            targetPath
-          );
-        }
-
-        // Use transition for better UX
-        startTransition(() => {
-          setLocation(getCurrentLocation());
-        });
-
-        // Scroll to top unless prevented
-        if (!options?.preventScrollReset) {
-          window.scrollTo(0, 0);
+          history.push(targetPath, options?.state);
         }
       } catch (error) {
+        bypassBlockersRef.current = false;
+        preventScrollResetRef.current = false;
         const navError = createRouterError(
           RouterErrorCode.NAVIGATION_ABORTED,
           `Navigation to "${to}" failed: ${
@@ -629,75 +713,342 @@ const RouterProvider = ({
         isNavigatingRef.current = false;
       }
     },
-    [basename, location.key]
+    [basename, history]
+  );
+
+  /**
+   * Run leave guards, then blockers, before carrying out a navigation
+   * Leave guard redirects replace the navigation
+   */
+  const guardNavigation = useCallback(
+    (nextLocation: Location, action: HistoryAction, proceed: () => void) => {
+      const proceedUnlessBlocked = () => {
+        const blocker = findBlocker(nextLocation, action);
+
+        if (blocker) {
+          blocker.onBlocked({
+            location: nextLocation,
+            action,
+            proceed,
+            reset: () => {},
+          });
+          return;
+        }
+
+        proceed();
+      };
+
+      const check = ++leaveCheckRef.current;
+      const leaveGuards = getLeaveGuards(nextLocation.pathname);
+
+      if (leaveGuards.length === 0) {
+        proceedUnlessBlocked();
+        return;
+      }
+
+      runLeaveGuards(leaveGuards, nextLocation, action)
+        .then((result) => {
+          // A newer navigation started while the guards were running
+          if (check !== leaveCheckRef.current) return;
+
+          if (typeof result === "string") {
+            performNavigation(result);
+          } else if (result) {
+            proceedUnlessBlocked();
+          }
+        })
+        .catch((error) => {
+          // performNavigation already reported its own RouterKitErrors
+          if (error instanceof RouterKitError) return;
+          const navError = createRouterError(
+            RouterErrorCode.NAVIGATION_ABORTED,
+            `Navigation to "${nextLocation.pathname}" failed: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+            { to: nextLocation.pathname, error }
+          );
+          console.error(navError.toConsoleMessage());
+        });
+    },
+    [findBlocker, getLeaveGuards, runLeaveGuards, performNavigation]
+  );
+
+  /**
+   * Build the path of a target, named routes from the route tree
+   */
+  const pathTo = useCallback(
+    (to: NavigateTarget): string =>
+      typeof to === "string" ? to : generateNamedPath(routes, to),
+    [routes]
+  );
+
+  /**
+   * Navigate to a new location
+   */
+  const navigate: NavigateFunction = useCallback(
+    (target: NavigateTarget | number, options?: NavigateOptions) => {
+      // Handle numeric (delta) navigation
+      // Blocked POPs are reverted by the history listener
+      if (typeof target === "number") {
+        history.go(target);
+        return;
+      }
+
+      let to = pathTo(target);
+
+      // Hash-only targets stay on the current page
+      if (to.startsWith("#")) {
+        const { pathname, search } = readCurrentLocation();
+        to = `${pathname}${search}${to}`;
+      }
+
+      const action: HistoryAction = options?.replace ? "REPLACE" : "PUSH";
+      const nextLocation = createLocation(
+        "/",
+        to.startsWith("/") || isExternalUrl(to) ? to : `/${to}`,
+        options?.state ?? null
+      );
+
+      guardNavigation(nextLocation, action, () =>
+        performNavigation(to, options)
+      );
+    },
+    [history, pathTo, readCurrentLocation, guardNavigation, performNavigation]
   );
 
   /**
    * Go back in history
    */
   const back = useCallback(() => {
-    window.history.back();
-  }, []);
+    history.back();
+  }, [history]);
 
   /**
    * Go forward in history
    */
   const forward = useCallback(() => {
-    window.history.forward();
-  }, []);
+    history.forward();
+  }, [history]);
 
   /**
-   * Setup history listeners
+   * Subscribe to history changes
    */
   useEffect(() => {
-    const handleLocationChange = () => {
-      startTransition(() => {
-        setLocation(getCurrentLocation());
+    // Sync in case the history changed between render and subscription
+    setSnapshot((current) =>
+      current.location === history.location ? current : readSnapshot(history)
+    );
+
+    /**
+     * Goes back to the accepted entry after the history already moved
+     * Returns a function that replays the reverted navigation
+     */
+    const revert = (nextLocation: Location) => {
+      const previous = acceptedRef.current.location;
+      const delta = acceptedRef.current.index - history.index;
+      ignoreNextUpdateRef.current = true;
+      if (delta !== 0) {
+        history.go(delta);
+      } else {
+        history.replace(previous, previous.state);
+      }
+
+      return () => {
+        bypassBlockersRef.current = true;
+        if (delta !== 0) {
+          history.go(-delta);
+        } else {
+          history.replace(nextLocation, nextLocation.state);
+        }
+      };
+    };
+
+    /**
+     * Renders the new history location
+     */
+    const accept = (
+      nextLocation: Location,
+      signal?: AbortSignal
+    ): void | Promise<void> => {
+      // Save scroll positions of the location being left
+      const previousLocation = readCurrentLocation();
+      scrollRestorersRef.current.forEach((restorer) =>
+        restorer.save(previousLocation, matchesRef.current)
+      );
+      scrollResetRef.current = {
+        key: nextLocation.key,
+        preventScrollReset: preventScrollResetRef.current,
+      };
+      preventScrollResetRef.current = false;
+
+      acceptedRef.current = readSnapshot(history);
+
+      // A newer navigation supersedes the pending one
+      settleNavigation();
+
+      if (!signal) {
+        startTransition(() => {
+          setSnapshot(readSnapshot(history));
+        });
+        return;
+      }
+
+      // Keep Navigation API navigations pending until the route resolves,
+      // so the browser's stop button can cancel guards and middleware
+      return new Promise<void>((resolve) => {
+        pendingNavigationRef.current = {
+          key: nextLocation.key,
+          signal,
+          settle: resolve,
+        };
+        startTransition(() => {
+          setSnapshot(readSnapshot(history));
+        });
       });
     };
 
-    // Patch history methods to dispatch custom event
-    const patchHistory = (method: "pushState" | "replaceState") => {
-      const original = window.history[method];
-      return function (
-        this: History,
-        state: any,
-        title: string,
-        url?: string | URL | null
-      ) {
-        const result = original.apply(this, [state, title, url]);
-        window.dispatchEvent(
-          new CustomEvent("locationchange", {
-            detail: { action: method === "pushState" ? "PUSH" : "REPLACE" },
-          })
-        );
-        return result;
-      } as typeof original;
+    /**
+     * Accepts the new location unless a blocker holds it
+     */
+    const acceptUnlessBlocked = (
+      nextLocation: Location,
+      action: HistoryAction,
+      signal?: AbortSignal
+    ): void | Promise<void> => {
+      const location = {
+        ...nextLocation,
+        pathname: stripBasename(nextLocation.pathname, basename),
+      };
+      const blocker = findBlocker(location, action);
+
+      if (!blocker) {
+        return accept(nextLocation, signal);
+      }
+
+      const replay = revert(nextLocation);
+      blocker.onBlocked({
+        location,
+        action,
+        proceed: replay,
+        reset: () => {},
+      });
     };
 
-    const originalPush = window.history.pushState;
-    const originalReplace = window.history.replaceState;
-    window.history.pushState = patchHistory("pushState");
-    window.history.replaceState = patchHistory("replaceState");
+    // Navigations the router did not start (e.g. <a> clicks under the
+    // Navigation API) are cancelled before they commit when a leave guard
+    // or blocker is involved, and replayed once they let it through
+    const unregisterCheck = history.beforeCommit?.(
+      ({ action, location: nextLocation, delta }) => {
+        if (bypassBlockersRef.current || ignoreNextUpdateRef.current) {
+          return true;
+        }
+
+        const location = {
+          ...nextLocation,
+          pathname: stripBasename(nextLocation.pathname, basename),
+        };
+        if (
+          getLeaveGuards(location.pathname).length === 0 &&
+          !findBlocker(location, action)
+        ) {
+          return true;
+        }
+
+        guardNavigation(location, action, () => {
+          if (action === "POP") {
+            bypassBlockersRef.current = true;
+            history.go(delta ?? 0);
+            return;
+          }
+          performNavigation(createPath(location), {
+            replace: action === "REPLACE",
+            state: location.state,
+          });
+        });
+        return false;
+      }
+    );
+
+    const unlisten = history.listen(
+      ({ location: nextLocation, action, signal }) => {
+        // Echo of reverting a blocked navigation
+        if (ignoreNextUpdateRef.current) {
+          ignoreNextUpdateRef.current = false;
+          return;
+        }
+
+        // Any history update supersedes leave guards still running
+        const check = ++leaveCheckRef.current;
+
+        if (bypassBlockersRef.current) {
+          bypassBlockersRef.current = false;
+          return accept(nextLocation, signal);
+        }
+
+        const location = {
+          ...nextLocation,
+          pathname: stripBasename(nextLocation.pathname, basename),
+        };
+        const leaveGuards = getLeaveGuards(location.pathname);
+
+        if (leaveGuards.length === 0) {
+          return acceptUnlessBlocked(nextLocation, action, signal);
+        }
+
+        return runLeaveGuards(leaveGuards, location, action).then((result) => {
+          if (check !== leaveCheckRef.current) return;
+
+          if (result === false) {
+            revert(nextLocation);
+            return;
+          }
+
+          if (typeof result === "string") {
+            // Replace the entry the guard redirected away from
+            bypassBlockersRef.current = true;
+            history.replace(joinBasename(basename, result));
+            return;
+          }
 
-    window.addEventListener("popstate", handleLocationChange);
-    window.addEventListener("locationchange", handleLocationChange);
+          return acceptUnlessBlocked(nextLocation, action, signal);
+        });
+      }
+    );
 
     return () => {
-      window.history.pushState = originalPush;
-      window.history.replaceState = originalReplace;
-      window.removeEventListener("popstate", handleLocationChange);
-      window.removeEventListener("locationchange", handleLocationChange);
+      unregisterCheck?.();
+      unlisten();
+      settleNavigation();
     };
-  }, []);
+  }, [
+    history,
+    basename,
+    findBlocker,
+    getLeaveGuards,
+    guardNavigation,
+    performNavigation,
+    readCurrentLocation,
+    runLeaveGuards,
+    settleNavigation,
+  ]);
 
   /**
-   * Compute matched route result with async middleware and guard support
+   * Compute matched route result with middleware and guard support
    */
   const normalizedPath = normalizePathname(location.pathname);
 
-  // Async route matching with middleware and guards
+  // Route matching with middleware and guards
   useEffect(() => {
+    // Send non-canonical URLs to their canonical form before matching
+    const canonicalPath = applyTrailingSlash(normalizedPath, trailingSlash);
+    if (canonicalPath !== normalizedPath) {
+      performNavigation(canonicalPath + location.search + location.hash, {
+        replace: true,
+        state: location.state,
+      });
+      return;
+    }
+
     // Abort previous matching if still in progress
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
@@ -707,94 +1058,156 @@ const RouterProvider = ({
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
 
-    // Create request object for middleware/guards
-    const request =
-      typeof window !== "undefined"
-        ? new Request(window.location.href)
+    // Cancelling the browser navigation cancels the matching
+    const matchingKey = location.key;
+    matchingKeyRef.current = matchingKey;
+    const navigationSignal =
+      pendingNavigationRef.current?.key === matchingKey
+        ? pendingNavigationRef.current.signal
         : undefined;
+    const abortMatching = () => abortController.abort();
+    navigationSignal?.addEventListener("abort", abortMatching);
+
+    // Create request object for middleware/guards
+    const request = createLocationRequest(history, location);
+
+    const applyResult = (result: MatchResult) => {
+      // Only update if not aborted
+      if (!abortController.signal.aborted) {
+        setMatchResult(result);
+        setError(null); // Clear any previous errors on successful match
+        setIsResolving(false);
+        setResolvedKey(matchingKey);
+      }
+      settleNavigation(matchingKey);
+    };
+
+    const failMatching = (error: any) => {
+      // Ignore abort errors
+      if (error.name !== "AbortError") {
+        console.error("[router-kit] Route matching error:", error);
+        setError(error);
+        setMatchResult({
+          component: null,
+          pattern: "",
+          params: {},
+          matches: [],
+          meta: null,
+          page404Component: null,
+        });
+        setIsResolving(false);
+        setResolvedKey(matchingKey);
+      }
+      settleNavigation(matchingKey);
+    };
 
-    // Execute async route matching
     // Only set resolving for the first time to prevent layout unmounting on navigation
     // setIsResolving(true); // Removed to prevent flicker
-    matchRoutesAsync(
-      routes,
-      normalizedPath,
-      "/",
-      location.search,
-      [],
-      request,
-      abortController.signal
-    )
-      .then((result) => {
-        // Only update if not aborted
-        if (!abortController.signal.aborted) {
-          setMatchResult(result);
-
-          // If the new route has a loader, we handle data clearing
-          if (result.loader) {
-            setLoaderData(null);
-          }
-
-          setError(null); // Clear any previous errors on successful match
-          setIsResolving(false);
-        }
-      })
-      .catch((error) => {
-        // Ignore abort errors
-        if (error.name !== "AbortError") {
-          console.error("[router-kit] Route matching error:", error);
-          setError(error);
-          setMatchResult({
-            component: null,
-            pattern: "",
-            params: {},
-            matches: [],
-            meta: null,
-            page404Component: null,
-          });
-          setIsResolving(false);
-        }
-      });
+    try {
+      const result = resolveRoutes(
+        routes,
+        normalizedPath,
+        location.search,
+        request,
+        abortController.signal,
+        { caseSensitive }
+      );
+      // Routes without guards or middleware apply in this render pass
+      if (result instanceof Promise) {
+        result.then(applyResult).catch(failMatching);
+      } else {
+        applyResult(result);
+      }
+    } catch (error) {
+      failMatching(error);
+    }
 
     return () => {
+      navigationSignal?.removeEventListener("abort", abortMatching);
       abortController.abort();
     };
-  }, [routes, normalizedPath, location.search]);
+  }, [
+    routes,
+    normalizedPath,
+    location.search,
+    history,
+    settleNavigation,
+    caseSensitive,
+    trailingSlash,
+    performNavigation,
+  ]);
+
+  // Settle navigations that did not need route matching (e.g. hash or state changes)
+  useEffect(() => {
+    if (matchingKeyRef.current !== location.key) {
+      setResolvedKey(location.key);
+      settleNavigation(location.key);
+    }
+  }, [location.key, settleNavigation]);
+
+  // Leave guards apply to the routes currently rendered
+  useEffect(() => {
+    matchesRef.current = matchResult.matches;
+  }, [matchResult.matches]);
 
   // Handle redirects
   useEffect(() => {
     if (matchResult.redirect) {
-      navigate(matchResult.redirect);
+      // Redirects complete an accepted navigation, so blockers are skipped
+      performNavigation(matchResult.redirect);
     }
-  }, [matchResult.redirect, navigate]);
+  }, [matchResult.redirect, performNavigation]);
 
   // Handle loaders
   useEffect(() => {
-    if (matchResult.loader) {
+    const { loaders } = matchResult;
+    if (loaders) {
       const abortController = new AbortController();
-      Promise.resolve(
-        matchResult.loader.fn({
-          params: matchResult.loader.params,
-          request: new Request(window.location.href),
-          signal: abortController.signal,
-        })
+      const request = createLocationRequest(history, location);
+      // Loaders run in parallel; each route reads its own data
+      Promise.all(
+        loaders.map(
+          (loader) =>
+            // A loader that throws synchronously rejects like an async one
+            new Promise((resolve) =>
+              resolve(
+                loader.fn({
+                  params: loader.params,
+                  query: loader.query,
+                  request,
+                  signal: abortController.signal,
+                })
+              )
+            )
+        )
       )
-        .then((data) => {
-          setLoaderData(data);
+        .then((results) => {
+          const data: Record<string, any> = {};
+          loaders.forEach((loader, index) => {
+            data[loader.pattern] = results[index];
+          });
+          setLoaded({ loaders, data });
           setError(null); // Clear error on successful loader
         })
         .catch((error) => {
           if (error.name !== "AbortError") {
-            console.error("[router-kit] Loader error:", error);
+            // notFound() is an expected outcome, not a failure
+            if (!isNotFoundError(error)) {
+              console.error("[router-kit] Loader error:", error);
+            }
             setError(error);
           }
         });
 
       return () => abortController.abort();
-    } else {
-      setLoaderData(null);
     }
-  }, [matchResult.loader]);
+  }, [matchResult.loaders]);
+
+  // Data loaded for another match is stale
+  const loaderData =
+    matchResult.loaders && loaded?.loaders === matchResult.loaders
+      ? loaded.data
+      : null;
 
   // Handle meta/title updates
   useEffect(() => {
@@ -822,21 +1235,104 @@ const RouterProvider = ({
 
   // Only show loading if:
   // 1. Initial resolution (isResolving)
-  // 2. We have a match with a loader but no data yet (loaderData is null)
+  // 2. We have a match whose loaders have not resolved yet
   // We removed isPending to prevent "flash" of loading state during standard navigation transitions
-  const showLoading = isResolving || (matchResult.loader && !loaderData);
-
-  // Prioritize error -> loading -> content -> 404
-  const component =
-    (error || matchResult.error) && matchResult.errorElement ? (
-      matchResult.errorElement
-    ) : showLoading ? (
-      <Suspense fallback={fallbackElement || null}>
-        {routeLoadingComponent || fallbackElement || null}
-      </Suspense>
+  const showLoading = isResolving || (!!matchResult.loaders && !loaderData);
+
+  // Loaders and guards throw notFound() for data that does not exist
+  const isNotFound =
+    isNotFoundError(error) || isNotFoundError(matchResult.error);
+  const notFoundScope = isNotFound
+    ? findNotFoundScope(matchResult.matches)
+    : null;
+
+  // Prioritize not found -> error -> loading -> content -> 404
+  const component = isNotFound ? (
+    notFoundScope ? (
+      renderNotFound(notFoundScope)
     ) : (
-      matchResult.component ?? (matchResult.page404Component || <Page404 />)
+      matchResult.page404Component || <Page404 />
+    )
+  ) : (error || matchResult.error) && matchResult.errorElement ? (
+    matchResult.errorElement
+  ) : showLoading ? (
+    <Suspense fallback={fallbackElement || null}>
+      {routeLoadingComponent || fallbackElement || null}
+    </Suspense>
+  ) : (
+    matchResult.component ?? (matchResult.page404Component || <Page404 />)
+  );
+
+  const routerLocation = useMemo<Location>(
+    () => ({ ...location, pathname: normalizedPath }),
+    [location, normalizedPath]
+  );
+
+  // Results without a parsed search expose the raw query
+  const query = useMemo(
+    () => matchResult.query ?? readQuery(location.search),
+    [matchResult.query, location.search]
+  );
+
+  // The new location rendered and its loaders resolved
+  const isRendered =
+    resolvedKey === location.key && !showLoading && !matchResult.redirect;
+
+  // Restore or reset scroll once per location, after Outlets rendered
+  useLayoutEffect(() => {
+    if (!isRendered || restoredKeyRef.current === location.key) return;
+    const isFirstRender = restoredKeyRef.current === null;
+    restoredKeyRef.current = location.key;
+
+    if (typeof window === "undefined") return;
+
+    stopHashScrollRef.current?.();
+    stopHashScrollRef.current = null;
+
+    const scrollReset = scrollResetRef.current;
+    const update: ScrollUpdate = {
+      location: routerLocation,
+      matches: matchResult.matches,
+      action: snapshot.action,
+      preventScrollReset:
+        scrollReset?.key === location.key && scrollReset.preventScrollReset,
+    };
+
+    let restored = false;
+    scrollRestorersRef.current.forEach((restorer) => {
+      restored = restorer.restore(update) || restored;
+    });
+    if (restored || update.preventScrollReset) return;
+
+    // The browser handles back/forward when no ScrollRestoration is mounted
+    const managesWindow = Array.from(scrollRestorersRef.current).some(
+      (restorer) => restorer.managesWindow
     );
+    if (update.action === "POP" && !managesWindow && !isFirstRender) return;
+
+    if (location.hash) {
+      const offset = hashScrollOffsetRef.current;
+      stopHashScrollRef.current = scrollToHash(
+        location.hash,
+        typeof offset === "function" ? offset() : offset
+      );
+      return;
+    }
+
+    if (update.action !== "POP" || managesWindow) {
+      window.scrollTo(0, 0);
+    }
+  }, [
+    isRendered,
+    location.key,
+    location.hash,
+    routerLocation,
+    matchResult.matches,
+    snapshot.action,
+  ]);
+
+  // Stop waiting for a hash target when the router unmounts
+  useEffect(() => () => stopHashScrollRef.current?.(), []);
 
   /**
    * Build context value with memoization
@@ -847,16 +1343,24 @@ const RouterProvider = ({
       pathname: normalizedPath,
       pattern: matchResult.pattern,
       search: location.search,
+      query,
       hash: location.hash,
       state: location.state,
       params: matchResult.params,
       matches: matchResult.matches,
       navigate,
+      pathTo,
       back,
       forward,
       isNavigating: isPending || isNavigatingRef.current,
       loaderData,
       meta: matchResult.meta,
+      location: routerLocation,
+      navigationType: snapshot.action,
+      history,
+      basename,
+      registerBlocker,
+      registerScrollRestorer,
 
       // Legacy aliases for backward compatibility
       path: normalizedPath,
@@ -866,16 +1370,24 @@ const RouterProvider = ({
       normalizedPath,
       matchResult.pattern,
       location.search,
+      query,
       location.hash,
       location.state,
       matchResult.params,
       matchResult.matches,
       navigate,
+      pathTo,
       back,
       forward,
       isPending,
       loaderData,
       matchResult.meta,
+      routerLocation,
+      snapshot.action,
+      history,
+      basename,
+      registerBlocker,
+      registerScrollRestorer,
     ]
   );
 
@@ -23,8 +23,13 @@ const normalizePath = (path: string | string[] | undefined): string => {
  * Validates a route configuration
  */
 const validateRoute = (route: Route, path: string): void => {
-  // Check for valid component or lazy
-  if (!route.component && !route.lazy && !route.redirectTo) {
+  // Check for valid component or lazy (route groups only need children)
+  if (
+    !route.component &&
+    !route.lazy &&
+    !route.redirectTo &&
+    !route.children?.length
+  ) {
     console.warn(
       `[router-kit] Route "${path}" has no component, lazy, or redirectTo defined.`
     );
@@ -37,21 +42,39 @@ const validateRoute = (route: Route, path: string): void => {
     );
   }
 
+  // Index routes take their parent's path
+  if (route.index && route.path) {
+    console.warn(
+      `[router-kit] Index route "${path}" has a path, which is ignored.`
+    );
+  }
+
   // Validate path patterns
   if (route.path) {
     const pathArray = Array.isArray(route.path) ? route.path : [route.path];
     for (const p of pathArray) {
+      // Param constraints like :id(\d+) may use any regex syntax
+      const withoutConstraints = p.replace(/\([^/]*\)/g, "");
+
       // Check for invalid characters
-      if (/[<>"|\\]/.test(p)) {
+      if (/[<>"|\\]/.test(withoutConstraints)) {
         console.warn(
           `[router-kit] Route path "${p}" contains invalid characters.`
         );
       }
 
-      // Warn about potential issues with catch-all routes
-      if (p.includes("*") && !p.endsWith("*") && !p.includes("*/")) {
+      // Catch-alls may sit anywhere, but only at the start of a segment
+      if (/[^/]\*/.test(withoutConstraints)) {
         console.warn(
-          `[router-kit] Catch-all (*) should typically be at the end of a path: "${p}"`
+          `[router-kit] Catch-all (*) should start a path segment: "${p}"`
+        );
+      }
+
+      // Param names end at the first non-identifier character
+      const hyphenated = /:([A-Za-z_$][\w$]*)-[\w$]/.exec(withoutConstraints);
+      if (hyphenated) {
+        console.warn(
+          `[router-kit] Param ":${hyphenated[1]}" in "${p}" is followed by static text starting with "-". Param names cannot contain hyphens.`
         );
       }
     }
@@ -73,10 +96,11 @@ function normalizeRoutes(inputRoutes: Route[], parentPath = ""): Route[] {
       validateRoute(route, fullPath);
     }
 
-    const normalized: Route = {
-      ...route,
-      path: normalizedPath,
-    };
+    const normalized: Route = { ...route };
+    // Pathless routes (layouts, route groups, index routes) stay pathless
+    if (route.path !== undefined) {
+      normalized.path = normalizedPath;
+    }
 
     // Recursively normalize children
     if (route.children && route.children.length > 0) {
@@ -101,6 +125,8 @@ function normalizeRoutes(inputRoutes: Route[], parentPath = ""): Route[] {
  *   {
  *     path: '/users/:id',
  *     component: <UserLayout />,
+ *     // Rendered in UserLayout's Outlet, e.g. for /users/1/unknown
+ *     notFound: <UserNotFound />,
  *     children: [
  *       { path: 'profile', component: <Profile /> },
  *       { path: 'settings', component: <Settings /> },
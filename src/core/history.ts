@@ -0,0 +1,892 @@
+import type {
+  History,
+  HistoryAction,
+  HistoryCommitCheck,
+  HistoryListener,
+  Location,
+  Path,
+  To,
+} from "../types";
+import { createRouterError, RouterErrorCode } from "../utils/error/errors";
+
+/**
+ * Options for createBrowserHistory
+ */
+export interface BrowserHistoryOptions {
+  /** Window to bind to (defaults to the global window) */
+  window?: Window;
+}
+
+/**
+ * Shape of the state object router-kit stores in each history entry
+ * @internal
+ */
+interface HistoryState {
+  /** User state passed to push/replace */
+  usr: any;
+  /** Unique key of the entry */
+  key: string;
+  /** Position of the entry in the session history */
+  idx: number;
+}
+
+/**
+ * Creates a unique key for location tracking
+ */
+export const createKey = (): string => {
+  return Math.random().toString(36).substring(2, 10);
+};
+
+/**
+ * Builds a URL string from a partial path object
+ */
+export const createPath = ({
+  pathname = "/",
+  search = "",
+  hash = "",
+}: Partial<Path>): string => {
+  let path = pathname;
+  if (search && search !== "?") {
+    path += search.startsWith("?") ? search : `?${search}`;
+  }
+  if (hash && hash !== "#") {
+    path += hash.startsWith("#") ? hash : `#${hash}`;
+  }
+  return path;
+};
+
+/**
+ * Parses a URL string into a partial path object
+ */
+export const parsePath = (path: string): Partial<Path> => {
+  const parsedPath: Partial<Path> = {};
+
+  if (path) {
+    const hashIndex = path.indexOf("#");
+    if (hashIndex >= 0) {
+      parsedPath.hash = path.slice(hashIndex);
+      path = path.slice(0, hashIndex);
+    }
+
+    const searchIndex = path.indexOf("?");
+    if (searchIndex >= 0) {
+      parsedPath.search = path.slice(searchIndex);
+      path = path.slice(0, searchIndex);
+    }
+
+    if (path) {
+      parsedPath.pathname = path;
+    }
+  }
+
+  return parsedPath;
+};
+
+/**
+ * Resolves a navigation target against a pathname
+ *
+ * Relative pathnames resolve against `from` as a directory: `edit` and
+ * `./edit` append a segment, `..` goes up one. Absolute pathnames have
+ * their `.` and `..` segments resolved. A target without a pathname
+ * (`?tab=2`, `#top`) keeps `from`. Search and hash come from the target.
+ *
+ * @example
+ * ```ts
+ * resolvePath("edit", "/users/42"); // { pathname: "/users/42/edit", search: "", hash: "" }
+ * resolvePath("../7?tab=posts", "/users/42"); // { pathname: "/users/7", search: "?tab=posts", hash: "" }
+ * resolvePath("#top", "/docs"); // { pathname: "/docs", search: "", hash: "#top" }
+ * ```
+ *
+ * @param to - Target path, string or path object
+ * @param from - Pathname to resolve against (default: "/")
+ */
+export const resolvePath = (to: To, from: string = "/"): Path => {
+  const {
+    pathname: toPathname,
+    search = "",
+    hash = "",
+  } = typeof to === "string" ? parsePath(to) : to;
+
+  let pathname = from;
+  if (toPathname) {
+    const segments = toPathname.startsWith("/")
+      ? []
+      : from.split("/").filter(Boolean);
+    for (const segment of toPathname.split("/")) {
+      if (segment === "..") {
+        segments.pop();
+      } else if (segment && segment !== ".") {
+        segments.push(segment);
+      }
+    }
+    pathname = `/${segments.join("/")}`;
+    // Keep a trailing slash the target asked for
+    if (toPathname.endsWith("/") && pathname !== "/") pathname += "/";
+  }
+
+  // Same ? and # prefixes as createPath
+  const { search: normalizedSearch = "", hash: normalizedHash = "" } =
+    parsePath(createPath({ search, hash }));
+  return { pathname, search: normalizedSearch, hash: normalizedHash };
+};
+
+/**
+ * Creates a location object for a navigation target
+ */
+export const createLocation = (
+  current: string | Partial<Path>,
+  to: To,
+  state: any = null,
+  key?: string
+): Location => {
+  const currentPath =
+    typeof current === "string" ? parsePath(current) : current;
+  const nextPath = typeof to === "string" ? parsePath(to) : to;
+
+  return {
+    pathname: currentPath.pathname || "/",
+    search: "",
+    hash: "",
+    ...nextPath,
+    state,
+    key: key || createKey(),
+  } as Location;
+};
+
+/**
+ * Minimal listener registry shared by history implementations
+ * @internal
+ */
+export const createListeners = () => {
+  const listeners = new Set<HistoryListener>();
+
+  const call = (
+    action: HistoryAction,
+    location: Location,
+    signal?: AbortSignal
+  ): Promise<void> => {
+    const results = Array.from(listeners, (listener) =>
+      listener({ action, location, signal })
+    );
+    return Promise.all(results).then(() => undefined);
+  };
+
+  return {
+    get size() {
+      return listeners.size;
+    },
+    add(listener: HistoryListener): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    call,
+    /**
+     * Calls the listeners without waiting for them
+     * Rejected listeners are reported instead of left unhandled
+     */
+    notify(action: HistoryAction, location: Location): void {
+      call(action, location).catch((error) => {
+        console.error("[router-kit] History listener failed:", error);
+      });
+    },
+  };
+};
+
+/**
+ * Adapter describing how a window-backed history maps URLs to locations
+ * @internal
+ */
+interface WindowHistoryAdapter {
+  /** Reads the router path from the window's current URL */
+  readPath: (win: Window) => Partial<Path>;
+  /** Builds the href written to the address bar for a router path */
+  createHref: (to: To) => string;
+  /** Window events that signal a POP navigation */
+  popEvents: string[];
+  /** Canonicalizes the window's URL before the history is first used */
+  prepare?: (win: Window) => void;
+}
+
+/**
+ * Shared implementation of browser and hash history
+ */
+const createWindowHistory = (
+  win: Window | undefined,
+  adapter: WindowHistoryAdapter
+): History => {
+  const listeners = createListeners();
+  let action: HistoryAction = "POP";
+
+  const readState = (): HistoryState | null =>
+    ((win?.history.state || null) as HistoryState | null) ?? null;
+
+  const readLocation = (fallbackKey = "default"): Location => {
+    if (!win) {
+      return createLocation("/", "/", null, "default");
+    }
+    const entryState = readState();
+    return createLocation(
+      "/",
+      adapter.readPath(win),
+      entryState?.usr ?? null,
+      entryState?.key || fallbackKey
+    );
+  };
+
+  let location = readLocation(createKey());
+  let index = readState()?.idx ?? 0;
+  let prepared = false;
+
+  /**
+   * Writes the initial entry's key and index, so POPs back to it can be
+   * told apart from other entries. Deferred until the history is used:
+   * creating one leaves window.history untouched.
+   */
+  const prepare = () => {
+    if (prepared || !win) return;
+    prepared = true;
+    adapter.prepare?.(win);
+    if (readState()?.idx == null) {
+      win.history.replaceState(
+        { ...readState(), key: location.key, idx: index },
+        ""
+      );
+    }
+  };
+
+  const handlePop = () => {
+    const entryState = readState();
+    const nextLocation = readLocation(
+      entryState?.idx == null ? createKey() : undefined
+    );
+    // popstate and hashchange can both fire for the same navigation
+    if (
+      nextLocation.key === location.key &&
+      createPath(nextLocation) === createPath(location)
+    ) {
+      return;
+    }
+    action = "POP";
+    location = nextLocation;
+    if (entryState?.idx == null) {
+      // An entry the browser created (e.g. a hash typed in the address
+      // bar) follows the current one; record its key and index so POPs
+      // back to it are reverted by the right delta
+      index += 1;
+      win?.history.replaceState(
+        { ...entryState, key: location.key, idx: index },
+        ""
+      );
+    } else {
+      index = entryState.idx;
+    }
+    listeners.notify(action, location);
+  };
+
+  const writeEntry = (
+    method: "pushState" | "replaceState",
+    to: To,
+    state: any,
+    idx: number
+  ) => {
+    const nextLocation = createLocation(location, to, state);
+    const entryState: HistoryState = {
+      usr: nextLocation.state,
+      key: nextLocation.key,
+      idx,
+    };
+    win?.history[method](entryState, "", adapter.createHref(nextLocation));
+  };
+
+  const history: History = {
+    get action() {
+      return action;
+    },
+    get location() {
+      return location;
+    },
+    get index() {
+      return index;
+    },
+    createHref: adapter.createHref,
+    push(to, state) {
+      prepare();
+      index += 1;
+      writeEntry("pushState", to, state, index);
+
+      action = "PUSH";
+      location = readLocation();
+      listeners.notify(action, location);
+    },
+    replace(to, state) {
+      prepare();
+      writeEntry("replaceState", to, state, index);
+
+      action = "REPLACE";
+      location = readLocation();
+      listeners.notify(action, location);
+    },
+    go(delta) {
+      win?.history.go(delta);
+    },
+    back() {
+      history.go(-1);
+    },
+    forward() {
+      history.go(1);
+    },
+    listen(listener) {
+      prepare();
+      if (listeners.size === 0) {
+        adapter.popEvents.forEach((event) =>
+          win?.addEventListener(event, handlePop)
+        );
+      }
+      const unlisten = listeners.add(listener);
+      return () => {
+        unlisten();
+        if (listeners.size === 0) {
+          adapter.popEvents.forEach((event) =>
+            win?.removeEventListener(event, handlePop)
+          );
+        }
+      };
+    },
+  };
+
+  return history;
+};
+
+/**
+ * Resolves the window option shared by window-backed histories
+ */
+const getDefaultWindow = (): Window | undefined =>
+  typeof window !== "undefined" ? window : undefined;
+
+/**
+ * Creates a history object backed by the browser's History API
+ *
+ * Navigation goes through `pushState`/`replaceState` on the given window,
+ * without patching them. Back/forward navigation is picked up through
+ * `popstate`. Other scripts on the page that call `window.history`
+ * directly are not observed.
+ *
+ * @example
+ * ```tsx
+ * const history = createBrowserHistory();
+ *
+ * <RouterProvider routes={routes} history={history} />
+ * ```
+ */
+export function createBrowserHistory(
+  options: BrowserHistoryOptions = {}
+): History {
+  const { window: win = getDefaultWindow() } = options;
+
+  return createWindowHistory(win, {
+    readPath: ({ location }) => ({
+      pathname: location.pathname,
+      search: location.search,
+      hash: location.hash,
+    }),
+    createHref: (to) => (typeof to === "string" ? to : createPath(to)),
+    popEvents: ["popstate"],
+  });
+}
+
+/**
+ * Options for createHashHistory
+ */
+export interface HashHistoryOptions {
+  /** Window to bind to (defaults to the global window) */
+  window?: Window;
+  /**
+   * Hash format
+   * - "slash": `#/users/42` (default)
+   * - "noslash": `#users/42`
+   */
+  hashType?: "slash" | "noslash";
+}
+
+/**
+ * Creates a history object that stores the location in the URL hash
+ *
+ * The router path (including its own search and hash) lives after the
+ * `#`, e.g. `index.html#/users/42?tab=posts`. Useful for static file
+ * servers and `file://` shells where only the hash survives a reload.
+ *
+ * @example
+ * ```tsx
+ * const history = createHashHistory({ hashType: "noslash" });
+ *
+ * <RouterProvider routes={routes} history={history} />
+ * ```
+ */
+export function createHashHistory(options: HashHistoryOptions = {}): History {
+  const { window: win = getDefaultWindow(), hashType = "slash" } = options;
+
+  const encodeHashPath = (path: string): string => {
+    const stripped = path.replace(/^\/+/, "");
+    return hashType === "noslash" ? stripped : `/${stripped}`;
+  };
+
+  const createHref = (to: To): string => {
+    const path = typeof to === "string" ? to : createPath(to);
+    return `#${encodeHashPath(path)}`;
+  };
+
+  return createWindowHistory(win, {
+    readPath: ({ location }) => {
+      const {
+        pathname = "",
+        search = "",
+        hash = "",
+      } = parsePath(location.hash.slice(1));
+      return {
+        pathname: pathname.startsWith("/") ? pathname : `/${pathname}`,
+        search,
+        hash,
+      };
+    },
+    createHref,
+    popEvents: ["popstate", "hashchange"],
+    // Canonicalize the initial hash (e.g. "" or "#users" in slash mode)
+    prepare: ({ history, location }) => {
+      const current = location.hash.slice(1);
+      const canonical = encodeHashPath(current || "/");
+      if (current !== canonical) {
+        history.replaceState(history.state, "", `#${canonical}`);
+      }
+    },
+  });
+}
+
+/**
+ * Subset of the Navigation API history entry used by router-kit
+ */
+export interface NavigationHistoryEntryLike {
+  readonly key: string;
+  readonly index?: number;
+  readonly url: string | null;
+  getState(): unknown;
+}
+
+/**
+ * Subset of the Navigation API `navigate` event used by router-kit
+ */
+export interface NavigateEventLike {
+  readonly navigationType: "push" | "replace" | "reload" | "traverse";
+  readonly destination: {
+    readonly url: string;
+    readonly key?: string | null;
+    readonly index?: number;
+    getState(): unknown;
+  };
+  readonly canIntercept: boolean;
+  readonly cancelable: boolean;
+  readonly hashChange: boolean;
+  readonly downloadRequest: string | null;
+  readonly formData: FormData | null;
+  readonly signal: AbortSignal;
+  intercept(options?: {
+    handler?: () => Promise<void>;
+    scroll?: "after-transition" | "manual";
+  }): void;
+  preventDefault(): void;
+}
+
+/**
+ * Subset of `window.navigation` used by router-kit
+ *
+ * Declared locally so the history can be driven by a stub in tests.
+ */
+export interface NavigationLike {
+  readonly currentEntry: NavigationHistoryEntryLike | null;
+  navigate(
+    url: string,
+    options?: { state?: unknown; history?: "auto" | "push" | "replace" }
+  ): unknown;
+  traverseTo?(key: string): unknown;
+  back?(): unknown;
+  forward?(): unknown;
+  updateCurrentEntry?(options: { state: unknown }): void;
+  addEventListener(
+    type: "navigate",
+    listener: (event: NavigateEventLike) => void
+  ): void;
+  removeEventListener(
+    type: "navigate",
+    listener: (event: NavigateEventLike) => void
+  ): void;
+}
+
+/**
+ * Options for createNavigationHistory
+ */
+export interface NavigationHistoryOptions {
+  /** Window to bind to (defaults to the global window) */
+  window?: Window;
+  /** Navigation object (defaults to `window.navigation`) */
+  navigation?: NavigationLike;
+  /**
+   * Decides whether a same-origin navigation is handled by the router.
+   * Navigations that are not intercepted load normally.
+   */
+  shouldIntercept?: (url: URL) => boolean;
+}
+
+/**
+ * Checks whether the Navigation API is available
+ */
+export const isNavigationApiSupported = (
+  win: Window | undefined = getDefaultWindow()
+): boolean => !!win && !!(win as any).navigation;
+
+/**
+ * Maps a Navigation API navigation type to a history action
+ */
+const toHistoryAction = (
+  navigationType: NavigateEventLike["navigationType"]
+): HistoryAction => {
+  if (navigationType === "traverse") return "POP";
+  if (navigationType === "replace") return "REPLACE";
+  return "PUSH";
+};
+
+/**
+ * Creates a history object backed by the Navigation API
+ *
+ * Instead of wrapping `pushState`, it intercepts `navigate` events, so
+ * plain `<a>` clicks, GET form submissions, back/forward and calls to
+ * `navigate()` all flow through one place. Each update carries the
+ * event's `signal`, which aborts when the browser cancels the navigation
+ * or a newer one supersedes it.
+ *
+ * Reloads, downloads and POST form submissions are not intercepted.
+ *
+ * @example
+ * ```tsx
+ * const history = isNavigationApiSupported()
+ *   ? createNavigationHistory()
+ *   : createBrowserHistory();
+ * ```
+ */
+export function createNavigationHistory(
+  options: NavigationHistoryOptions = {}
+): History {
+  const {
+    window: win = getDefaultWindow(),
+    navigation = (win as any)?.navigation as NavigationLike | undefined,
+    shouldIntercept,
+  } = options;
+
+  if (!navigation) {
+    throw createRouterError(
+      RouterErrorCode.ROUTER_NOT_INITIALIZED,
+      "The Navigation API is not available. Use createBrowserHistory() instead."
+    );
+  }
+
+  const listeners = createListeners();
+  const commitChecks = new Set<HistoryCommitCheck>();
+  let action: HistoryAction = "POP";
+
+  const toLocation = (
+    url: string | null | undefined,
+    entryState: HistoryState | null,
+    key: string | null | undefined
+  ): Location => {
+    const { pathname, search, hash } = new URL(
+      url || "/",
+      win?.location.origin || "http://localhost"
+    );
+    return createLocation(
+      "/",
+      { pathname, search, hash },
+      entryState?.usr ?? null,
+      entryState?.key || key || undefined
+    );
+  };
+
+  const readLocation = (): Location => {
+    const entry = navigation.currentEntry;
+    if (!entry) return createLocation("/", "/", null, "default");
+    return toLocation(
+      entry.url,
+      (entry.getState() as HistoryState | null) ?? null,
+      entry.key
+    );
+  };
+
+  let location = readLocation();
+  let index =
+    navigation.currentEntry?.index ??
+    (navigation.currentEntry?.getState() as HistoryState | null)?.idx ??
+    0;
+
+  const handleNavigate = (event: NavigateEventLike) => {
+    if (
+      !event.canIntercept ||
+      event.navigationType === "reload" ||
+      event.downloadRequest !== null ||
+      event.formData !== null
+    ) {
+      return;
+    }
+
+    const url = new URL(event.destination.url);
+    if (shouldIntercept && !shouldIntercept(url)) return;
+
+    const { destination, signal } = event;
+    const entryState = (destination.getState() as HistoryState | null) ?? null;
+
+    // Cancel rejected navigations before they commit. Traversals without
+    // a known index can't be replayed, so listeners revert them instead.
+    const nextAction = toHistoryAction(event.navigationType);
+    const delta =
+      destination.index != null && destination.index >= 0
+        ? destination.index - index
+        : undefined;
+    if (
+      event.cancelable &&
+      commitChecks.size > 0 &&
+      (nextAction !== "POP" || delta !== undefined)
+    ) {
+      const pending = {
+        action: nextAction,
+        location: toLocation(destination.url, entryState, destination.key),
+        delta: nextAction === "POP" ? delta : undefined,
+      };
+      if (Array.from(commitChecks).some((check) => !check(pending))) {
+        event.preventDefault();
+        return;
+      }
+    }
+
+    event.intercept({
+      // The router scrolls new entries itself (top, hash target or
+      // preventScrollReset); back/forward keeps the browser's restoration
+      scroll:
+        event.navigationType === "traverse" ? "after-transition" : "manual",
+      handler: async () => {
+        const previousIndex = index;
+        action = toHistoryAction(event.navigationType);
+        location = toLocation(destination.url, entryState, destination.key);
+        index =
+          action === "POP"
+            ? destination.index ?? entryState?.idx ?? previousIndex
+            : navigation.currentEntry?.index ??
+              (action === "PUSH" ? previousIndex + 1 : previousIndex);
+
+        // Entries created outside the router (e.g. <a> clicks) get a stable key
+        if (!entryState?.key && action !== "POP") {
+          const nextState: HistoryState = {
+            usr: location.state,
+            key: location.key,
+            idx: index,
+          };
+          navigation.updateCurrentEntry?.({ state: nextState });
+        }
+
+        // Keep the navigation pending until listeners have settled
+        await listeners.call(action, location, signal);
+      },
+    });
+  };
+
+  const navigateTo = (to: To, state: any, mode: "push" | "replace") => {
+    const nextLocation = createLocation(location, to, state);
+    const entryState: HistoryState = {
+      usr: nextLocation.state,
+      key: nextLocation.key,
+      idx: mode === "push" ? index + 1 : index,
+    };
+    const result = navigation.navigate(history.createHref(nextLocation), {
+      state: entryState,
+      history: mode,
+    }) as { committed?: Promise<unknown>; finished?: Promise<unknown> };
+
+    // Superseded navigations reject; the router already moved on
+    result?.committed?.catch(() => {});
+    result?.finished?.catch(() => {});
+  };
+
+  const history: History = {
+    get action() {
+      return action;
+    },
+    get location() {
+      return location;
+    },
+    get index() {
+      return index;
+    },
+    createHref(to) {
+      return typeof to === "string" ? to : createPath(to);
+    },
+    push(to, state) {
+      navigateTo(to, state, "push");
+    },
+    replace(to, state) {
+      navigateTo(to, state, "replace");
+    },
+    go(delta) {
+      win?.history.go(delta);
+    },
+    back() {
+      history.go(-1);
+    },
+    forward() {
+      history.go(1);
+    },
+    listen(listener) {
+      if (listeners.size === 0) {
+        navigation.addEventListener("navigate", handleNavigate);
+      }
+      const unlisten = listeners.add(listener);
+      return () => {
+        unlisten();
+        if (listeners.size === 0) {
+          navigation.removeEventListener("navigate", handleNavigate);
+        }
+      };
+    },
+    beforeCommit(check) {
+      commitChecks.add(check);
+      return () => {
+        commitChecks.delete(check);
+      };
+    },
+  };
+
+  return history;
+}
+
+/**
+ * Options for createMemoryHistory
+ */
+export interface MemoryHistoryOptions {
+  /** Initial stack of URLs or locations (defaults to ["/"]) */
+  initialEntries?: Array<string | Partial<Location>>;
+  /** Index of the active entry (defaults to the last entry) */
+  initialIndex?: number;
+  /** Maximum number of entries kept on the stack; oldest entries are dropped */
+  maxEntries?: number;
+}
+
+/**
+ * Memory history object with access to its entry stack
+ */
+export interface MemoryHistory extends History {
+  /** Current entry stack */
+  readonly entries: readonly Location[];
+}
+
+/**
+ * Clamps a number between bounds
+ */
+const clamp = (value: number, lower: number, upper: number): number =>
+  Math.min(Math.max(value, lower), upper);
+
+/**
+ * Creates a history object that keeps its entries in memory
+ *
+ * Does not read or write the browser URL, which makes it suitable for
+ * embedded widgets, Storybook stories, tests and non-DOM environments.
+ * `go()` is clamped to the bounds of the stack.
+ *
+ * @example
+ * ```tsx
+ * const history = createMemoryHistory({
+ *   initialEntries: ["/", "/users/42"],
+ *   initialIndex: 1,
+ * });
+ *
+ * history.back(); // location.pathname === "/"
+ * ```
+ */
+export function createMemoryHistory(
+  options: MemoryHistoryOptions = {}
+): MemoryHistory {
+  const { initialEntries = ["/"], initialIndex, maxEntries } = options;
+  const listeners = createListeners();
+  let action: HistoryAction = "POP";
+
+  let entries: Location[] = (
+    initialEntries.length > 0 ? initialEntries : ["/"]
+  ).map((entry) =>
+    createLocation(
+      "/",
+      entry,
+      typeof entry === "string" ? null : entry.state,
+      typeof entry === "string" ? undefined : entry.key
+    )
+  );
+  let index = clamp(initialIndex ?? entries.length - 1, 0, entries.length - 1);
+
+  const trimEntries = () => {
+    if (maxEntries && maxEntries > 0 && entries.length > maxEntries) {
+      const overflow = entries.length - maxEntries;
+      entries = entries.slice(overflow);
+      index = Math.max(index - overflow, 0);
+    }
+  };
+
+  trimEntries();
+
+  const history: MemoryHistory = {
+    get index() {
+      return index;
+    },
+    get entries() {
+      return entries;
+    },
+    get action() {
+      return action;
+    },
+    get location() {
+      return entries[index];
+    },
+    createHref(to) {
+      return typeof to === "string" ? to : createPath(to);
+    },
+    push(to, state) {
+      const nextLocation = createLocation(entries[index], to, state);
+      entries = [...entries.slice(0, index + 1), nextLocation];
+      index = entries.length - 1;
+      trimEntries();
+
+      action = "PUSH";
+      listeners.notify(action, entries[index]);
+    },
+    replace(to, state) {
+      const nextLocation = createLocation(entries[index], to, state);
+      entries = [...entries];
+      entries[index] = nextLocation;
+
+      action = "REPLACE";
+      listeners.notify(action, nextLocation);
+    },
+    go(delta) {
+      const nextIndex = clamp(index + delta, 0, entries.length - 1);
+      if (nextIndex === index) return;
+      index = nextIndex;
+
+      action = "POP";
+      listeners.notify(action, entries[index]);
+    },
+    back() {
+      history.go(-1);
+    },
+    forward() {
+      history.go(1);
+    },
+    listen(listener) {
+      return listeners.add(listener);
+    },
+  };
+
+  return history;
+}
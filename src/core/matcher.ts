@@ -0,0 +1,1046 @@
+import type {
+  GeneratePathArgs,
+  NamedTo,
+  ParamConstraint,
+  PathParams,
+  Route,
+  RouteMatch,
+  RoutePattern,
+} from "../types";
+import { RouterErrors } from "../utils/error/errors";
+import { createPath } from "./history";
+
+/**
+ * A parsed pattern segment
+ */
+export interface PatternSegment {
+  type: "static" | "partial" | "dynamic" | "optional" | "splat";
+  /** Static text, the param name, or the partial segment as written */
+  value: string;
+  /** Case sensitivity of the route the segment belongs to */
+  caseSensitive?: boolean;
+  /** Values a param segment accepts, from `:id(\d+)` or the route's `params` */
+  constraint?: ParamConstraint;
+  /** Params and static text of a partial segment, e.g. `:name.:ext` */
+  partial?: PartialSegment;
+}
+
+/**
+ * Compiled form of a segment mixing params and static text
+ */
+export interface PartialSegment {
+  /** Param names in order of appearance */
+  names: string[];
+  /** Matches the whole segment, static text compared as written */
+  exact: RegExp;
+  /** Matches the whole segment, static text compared ignoring case */
+  loose: RegExp;
+  /** Route-level constraints of the params */
+  constraints: Record<string, ParamConstraint>;
+}
+
+/**
+ * A route inside a branch, with the full pattern it matches at
+ */
+export interface BranchRoute {
+  route: Route;
+  /** Full pattern from the root, e.g. `/users/:id/settings` */
+  pattern: string;
+  /** Number of branch segments up to and including this route */
+  segmentCount: number;
+}
+
+/**
+ * A root-to-leaf chain of routes that is matched as a whole
+ */
+export interface RouteBranch {
+  /** Routes from the outermost layout to the deepest route */
+  routes: BranchRoute[];
+  /** Full pattern of the deepest route */
+  pattern: string;
+  /** Parsed segments of the pattern */
+  segments: PatternSegment[];
+  /** Whether the pattern must match the whole pathname */
+  end: boolean;
+  /** Specificity score of each segment of the pattern */
+  score: number[];
+}
+
+/**
+ * Options applied when matching
+ */
+export interface MatchOptions {
+  /** Compare static segments case-sensitively (default: true) */
+  caseSensitive?: boolean;
+  /** Match the whole pathname rather than a prefix (default: true) */
+  end?: boolean;
+}
+
+/**
+ * Position of a branch in the matching order, for debugging
+ */
+export interface RankedRoute {
+  /** 0 is tried first */
+  rank: number;
+  /** Full pattern of the deepest route */
+  pattern: string;
+  /** Specificity score of each segment (higher is more specific) */
+  score: number[];
+  /** Routes from the outermost layout to the deepest route */
+  routes: Route[];
+}
+
+/**
+ * Node of a trie over the leading static segments of branches
+ */
+export interface BranchTrieNode {
+  /** Child nodes by static segment, lowercased */
+  children: Map<string, BranchTrieNode>;
+  /** Ranks of the branches whose static prefix ends at this node */
+  ranks: number[];
+}
+
+/**
+ * Route tree compiled for matching
+ */
+export interface CompiledRoutes {
+  /** Branches in the order they are tried */
+  branches: RouteBranch[];
+  /** Branches indexed by their static prefix */
+  branchTrie: BranchTrieNode;
+  /** Top-level `404` route, rendered when no branch or scope matches */
+  notFound: Route | null;
+  /** Routes with a not-found element, matched by prefix, closest first */
+  notFoundScopes: RouteBranch[];
+  /** Not-found scopes indexed by their static prefix */
+  notFoundTrie: BranchTrieNode;
+  /** Full patterns of the named routes, by name */
+  names: Map<string, string>;
+}
+
+/**
+ * Result of matching a single pattern
+ */
+export interface PatternMatch {
+  params: Record<string, string>;
+  /** Portion of the pathname the pattern matched */
+  pathname: string;
+  /** Matched portion before a splat (`*`) */
+  pathnameBase: string;
+}
+
+/**
+ * Match of a pattern returned by matchPath
+ */
+export interface PathMatch extends PatternMatch {
+  /** The pattern that matched */
+  pattern: string;
+}
+
+/**
+ * Splits on pipes outside of param constraints, so `:lang(en|fr)` stays whole
+ */
+const splitAlternatives = (path: string): string[] => {
+  const alternatives = [""];
+  let depth = 0;
+  for (const char of path) {
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(depth - 1, 0);
+    if (char === "|" && depth === 0) {
+      alternatives.push("");
+    } else {
+      alternatives[alternatives.length - 1] += char;
+    }
+  }
+  return alternatives;
+};
+
+/**
+ * Splits a route path into its alternatives, without leading slashes
+ * Accepts arrays and the pipe-separated form produced by createRouter
+ */
+export const splitRoutePath = (
+  path: string | string[] | undefined
+): string[] => {
+  if (path === undefined) return [""];
+  const paths = Array.isArray(path) ? path : splitAlternatives(path);
+  return paths.map((p) => p.replace(/^\/+/, ""));
+};
+
+/**
+ * Whether a route is the not-found (`404`) route
+ */
+export const isNotFoundRoute = (route: Route): boolean =>
+  route.path !== undefined && splitRoutePath(route.path).includes("404");
+
+/**
+ * Element rendered in a route's Outlet when none of its children match
+ * The route's `notFound`, or the component of a `404` child route
+ */
+export const getNotFoundElement = (route: Route): Route["notFound"] =>
+  route.notFound ?? route.children?.find(isNotFoundRoute)?.component;
+
+/**
+ * Joins a parent pattern and a relative child path into a full pattern
+ */
+export const joinPattern = (parent: string, child: string): string => {
+  if (!child) return parent;
+  const joined = `${parent}/${child}`.replace(/\/{2,}/g, "/");
+  return joined.length > 1 ? joined.replace(/\/$/, "") : joined;
+};
+
+/**
+ * Segment scores: static beats partial, partial beats constrained,
+ * constrained beats dynamic, dynamic beats optional, optional beats splat
+ */
+const STATIC_SEGMENT = 6;
+const PARTIAL_SEGMENT = 5;
+const CONSTRAINED_SEGMENT = 4;
+const DYNAMIC_SEGMENT = 3;
+const OPTIONAL_SEGMENT = 2;
+const SPLAT_SEGMENT = 1;
+
+const scoreSegment = (segment: PatternSegment): number => {
+  switch (segment.type) {
+    case "static":
+      return STATIC_SEGMENT;
+    case "partial":
+      return PARTIAL_SEGMENT;
+    case "dynamic":
+      return segment.constraint ? CONSTRAINED_SEGMENT : DYNAMIC_SEGMENT;
+    case "optional":
+      return OPTIONAL_SEGMENT;
+    default:
+      return SPLAT_SEGMENT;
+  }
+};
+
+/**
+ * A piece of a segment: static text or a param with its inline constraint
+ */
+type SegmentToken =
+  | { type: "text"; value: string }
+  | { type: "param"; name: string; source?: string };
+
+/**
+ * Param names are identifiers, anything after them is static text
+ */
+const PARAM_NAME = /^[A-Za-z_$][\w$]*/;
+
+/**
+ * Splits a segment into static text and `:name` / `:name(regex)` params
+ */
+const tokenizeSegment = (segment: string, path: string): SegmentToken[] => {
+  const tokens: SegmentToken[] = [];
+  const pushText = (text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === "text") last.value += text;
+    else tokens.push({ type: "text", value: text });
+  };
+
+  let index = 0;
+  while (index < segment.length) {
+    const name =
+      segment[index] === ":"
+        ? PARAM_NAME.exec(segment.slice(index + 1))?.[0]
+        : undefined;
+    if (!name) {
+      pushText(segment[index++]);
+      continue;
+    }
+    index += name.length + 1;
+
+    // Inline constraint, parentheses may nest
+    let source: string | undefined;
+    if (segment[index] === "(") {
+      let depth = 0;
+      const start = index;
+      do {
+        if (segment[index] === "\\") index++;
+        else if (segment[index] === "(") depth++;
+        else if (segment[index] === ")") depth--;
+        index++;
+      } while (depth > 0 && index < segment.length);
+      if (depth > 0) {
+        RouterErrors.invalidRoute(path, `unclosed param constraint "${name}"`);
+      }
+      source = segment.slice(start + 1, index - 1);
+    }
+
+    tokens.push({ type: "param", name, source });
+  }
+
+  return tokens;
+};
+
+/**
+ * Compiles a regex, reporting syntax errors as invalid routes
+ */
+const compileRegExp = (source: string, path: string): RegExp => {
+  try {
+    return new RegExp(source);
+  } catch (error) {
+    return RouterErrors.invalidRoute(
+      path,
+      `invalid param constraint: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+};
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Matches static text ignoring case, leaving param constraints as written
+ */
+const escapeRegExpLoose = (text: string): string =>
+  Array.from(text, (char) => {
+    const lower = char.toLowerCase();
+    const upper = char.toUpperCase();
+    return lower === upper ? escapeRegExp(char) : `[${lower}${upper}]`;
+  }).join("");
+
+/**
+ * Compiles a segment that mixes params and static text
+ * Params capture at least one character, as few as possible unless
+ * their inline constraint says otherwise
+ */
+const compilePartialSegment = (
+  tokens: SegmentToken[],
+  path: string,
+  constraints: Record<string, ParamConstraint> = {}
+): PartialSegment => {
+  const names: string[] = [];
+  const compile = (escapeText: (text: string) => string) =>
+    compileRegExp(
+      `^${tokens
+        .map((token) =>
+          token.type === "text"
+            ? escapeText(token.value)
+            : `(?<${token.name}>${
+                token.source !== undefined ? `(?:${token.source})` : ".+?"
+              })`
+        )
+        .join("")}$`,
+      path
+    );
+
+  tokens.forEach((token) => {
+    if (token.type === "param") names.push(token.name);
+  });
+
+  return {
+    names,
+    exact: compile(escapeRegExp),
+    loose: compile(escapeRegExpLoose),
+    constraints,
+  };
+};
+
+/**
+ * Parses a path into segments
+ * Route-level `params` constrain the params declared in the path
+ */
+export const parseSegments = (
+  path: string,
+  route?: Pick<Route, "caseSensitive" | "params">
+): PatternSegment[] =>
+  path
+    .split("/")
+    .filter(Boolean)
+    .map((segment): PatternSegment => {
+      if (segment.startsWith("*")) {
+        const value = segment.slice(1) || "splat";
+        return { type: "splat", value, constraint: route?.params?.[value] };
+      }
+
+      const tokens = tokenizeSegment(segment, path);
+      const [first, second] = tokens;
+
+      // The whole segment is one param: `:id`, `:id?`, `:id(\d+)`
+      const isOptional =
+        tokens.length === 2 && second.type === "text" && second.value === "?";
+      if (first?.type === "param" && (tokens.length === 1 || isOptional)) {
+        return {
+          type: isOptional ? "optional" : "dynamic",
+          value: first.name,
+          constraint:
+            first.source !== undefined
+              ? compileRegExp(`^(?:${first.source})$`, path)
+              : route?.params?.[first.name],
+        };
+      }
+
+      if (tokens.some((token) => token.type === "param")) {
+        return {
+          type: "partial",
+          value: segment,
+          caseSensitive: route?.caseSensitive,
+          partial: compilePartialSegment(tokens, path, route?.params),
+        };
+      }
+
+      return {
+        type: "static",
+        value: segment,
+        caseSensitive: route?.caseSensitive,
+      };
+    });
+
+/**
+ * Whether a value satisfies a param constraint
+ */
+const satisfies = (
+  constraint: ParamConstraint | undefined,
+  value: string
+): boolean => {
+  if (!constraint) return true;
+  if (typeof constraint === "function") return constraint(value);
+  // Global and sticky regexes keep state between calls
+  constraint.lastIndex = 0;
+  return constraint.test(value);
+};
+
+/**
+ * Captures the params of a partial segment, or null when it does not match
+ */
+const matchPartialSegment = (
+  { names, exact, loose, constraints }: PartialSegment,
+  pathPart: string,
+  caseSensitive: boolean
+): Record<string, string> | null => {
+  const groups = (caseSensitive ? exact : loose).exec(pathPart)?.groups;
+  if (!groups) return null;
+
+  const params: Record<string, string> = {};
+  for (const name of names) {
+    if (!satisfies(constraints[name], groups[name])) return null;
+    params[name] = groups[name];
+  }
+  return params;
+};
+
+/**
+ * Orders branches by specificity, segment by segment
+ * Deeper patterns, then deeper nesting, win ties
+ */
+const compareBranches = (a: RouteBranch, b: RouteBranch): number => {
+  const length = Math.min(a.score.length, b.score.length);
+  for (let i = 0; i < length; i++) {
+    if (a.score[i] !== b.score[i]) return b.score[i] - a.score[i];
+  }
+
+  if (a.score.length !== b.score.length) {
+    const longer = a.score.length > b.score.length ? a : b;
+    // Optional and splat segments can match nothing, so for the URLs
+    // both patterns match, the shorter pattern is the exact one
+    const shorterFirst = longer.score[length] <= OPTIONAL_SEGMENT;
+    return (a === longer) === shorterFirst ? 1 : -1;
+  }
+
+  return b.routes.length - a.routes.length;
+};
+
+/**
+ * Flattens routes into branches in declaration order,
+ * children before their parent's own branch
+ *
+ * Index routes match their parent's pattern and rank ahead of the
+ * parent's own branch, since they add a level to the chain. Pathless
+ * routes with children (layouts, route groups) consume no segment and
+ * only match through their children. Routes with a not-found element
+ * also add a prefix branch to `scopes`. Named routes are recorded in
+ * `names` with their first path.
+ */
+const flattenRoutes = (
+  routes: Route[],
+  parentPattern: string,
+  parentSegments: PatternSegment[],
+  parents: BranchRoute[],
+  branches: RouteBranch[],
+  scopes: RouteBranch[],
+  names: Map<string, string>
+): RouteBranch[] => {
+  for (const route of routes) {
+    if (isNotFoundRoute(route)) continue;
+
+    const hasChildren = Boolean(route.children && route.children.length > 0);
+    if (route.index && hasChildren) {
+      RouterErrors.invalidRoute(
+        parentPattern,
+        "index routes cannot have children"
+      );
+    }
+
+    // Index routes render when the URL ends at their parent
+    const paths = route.index ? [""] : splitRoutePath(route.path);
+    const isPathless = route.path === undefined && hasChildren && !route.index;
+
+    for (const path of paths) {
+      const pattern = joinPattern(parentPattern, path);
+      const segments = [...parentSegments, ...parseSegments(path, route)];
+      const chain = [
+        ...parents,
+        { route, pattern, segmentCount: segments.length },
+      ];
+
+      if (route.name && path === paths[0]) {
+        if (names.has(route.name)) {
+          RouterErrors.invalidRoute(
+            pattern,
+            `the name "${route.name}" is already used by "${names.get(
+              route.name
+            )}"`
+          );
+        }
+        names.set(route.name, pattern);
+      }
+
+      if (!route.redirectTo && getNotFoundElement(route)) {
+        scopes.push({
+          routes: chain,
+          pattern,
+          segments,
+          end: false,
+          score: segments.map(scoreSegment),
+        });
+      }
+
+      // Redirects apply to the whole subtree
+      if (hasChildren && !route.redirectTo) {
+        flattenRoutes(
+          route.children!,
+          pattern,
+          segments,
+          chain,
+          branches,
+          scopes,
+          names
+        );
+        if (isPathless) continue;
+      }
+
+      branches.push({
+        routes: chain,
+        pattern,
+        segments,
+        end: !(hasChildren && route.redirectTo),
+        score: segments.map(scoreSegment),
+      });
+    }
+  }
+
+  return branches;
+};
+
+/**
+ * Indexes ranked branches by their leading static segments
+ *
+ * A branch is stored at the node reached by its static segments up to
+ * the first param, partial segment or splat. Keys are lowercased so
+ * case-insensitive routes share nodes; matching still compares case.
+ */
+const buildBranchTrie = (branches: RouteBranch[]): BranchTrieNode => {
+  const root: BranchTrieNode = { children: new Map(), ranks: [] };
+  branches.forEach((branch, rank) => {
+    let node = root;
+    for (const segment of branch.segments) {
+      if (segment.type !== "static") break;
+      const key = segment.value.toLowerCase();
+      let child = node.children.get(key);
+      if (!child) {
+        child = { children: new Map(), ranks: [] };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    node.ranks.push(rank);
+  });
+  return root;
+};
+
+/**
+ * Ranks of the branches whose static prefix matches the pathname
+ * Walks one node per path segment, so the cost follows the path length
+ * and the routes sharing its prefix, not the size of the route table.
+ */
+const findCandidates = (trie: BranchTrieNode, decoded: string[]): number[] => {
+  const ranks = [...trie.ranks];
+  let node: BranchTrieNode | undefined = trie;
+  for (const part of decoded) {
+    node = node.children.get(part.toLowerCase());
+    if (!node) break;
+    ranks.push(...node.ranks);
+  }
+  return ranks.sort((a, b) => a - b);
+};
+
+const compiledRoutes = new WeakMap<Route[], CompiledRoutes>();
+
+/**
+ * Compiles a route tree into branches ranked by specificity
+ * Declaration order only breaks exact ties. Results are cached per
+ * routes array.
+ */
+export const compileRoutes = (routes: Route[]): CompiledRoutes => {
+  let compiled = compiledRoutes.get(routes);
+  if (!compiled) {
+    const scopes: RouteBranch[] = [];
+    const names = new Map<string, string>();
+    // Array#sort is stable, so equal branches keep declaration order
+    const branches = flattenRoutes(routes, "/", [], [], [], scopes, names).sort(
+      compareBranches
+    );
+    // The most specific scope is the closest one
+    const notFoundScopes = scopes.sort(compareBranches);
+    compiled = {
+      branches,
+      branchTrie: buildBranchTrie(branches),
+      notFound: routes.find(isNotFoundRoute) ?? null,
+      notFoundScopes,
+      notFoundTrie: buildBranchTrie(notFoundScopes),
+      names,
+    };
+    compiledRoutes.set(routes, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * Values captured by matching segments against a pathname
+ */
+interface SegmentsMatch {
+  /** Params captured by each segment */
+  captures: Array<Record<string, string>>;
+  /** Path segments consumed after each pattern segment, starting at 0 */
+  consumed: number[];
+}
+
+/**
+ * Matches parsed segments against the segments of a pathname
+ *
+ * Backtracks over the segments that can match a varying number of path
+ * segments: optional params try the segment first and then without it,
+ * splats try the longest rest first. This lets splats sit in the middle
+ * of a pattern (`/repo/*path/edit`) and optional params anywhere
+ * (`/:lang?/docs/:section?`).
+ */
+const matchSegments = (
+  segments: PatternSegment[],
+  pathParts: string[],
+  end: boolean,
+  caseSensitive: boolean
+): SegmentsMatch | null => {
+  const captures: Array<Record<string, string>> = [];
+  const consumed = [0];
+
+  const matchFrom = (segmentIndex: number, index: number): boolean => {
+    if (segmentIndex === segments.length) {
+      return !end || index === pathParts.length;
+    }
+
+    const segment = segments[segmentIndex];
+    const pathPart = pathParts[index];
+
+    // Records the segment's captures and moves on to the next segment
+    const advance = (params: Record<string, string>, nextIndex: number) => {
+      captures[segmentIndex] = params;
+      consumed[segmentIndex + 1] = nextIndex;
+      return matchFrom(segmentIndex + 1, nextIndex);
+    };
+
+    switch (segment.type) {
+      case "splat":
+        // Longest rest first, shorter ones if the following segments fail
+        for (let next = pathParts.length; next >= index; next--) {
+          const rest = pathParts.slice(index, next).join("/");
+          if (
+            satisfies(segment.constraint, rest) &&
+            advance({ [segment.value]: rest }, next)
+          ) {
+            return true;
+          }
+        }
+        return false;
+
+      case "optional":
+        // Optional params (:param?) may be missing, and are skipped
+        // when the segment fails their constraint
+        if (
+          pathPart !== undefined &&
+          satisfies(segment.constraint, pathPart) &&
+          advance({ [segment.value]: pathPart }, index + 1)
+        ) {
+          return true;
+        }
+        return advance({ [segment.value]: "" }, index);
+
+      case "dynamic":
+        return (
+          pathPart !== undefined &&
+          satisfies(segment.constraint, pathPart) &&
+          advance({ [segment.value]: pathPart }, index + 1)
+        );
+
+      case "partial": {
+        // Params mixed with static text, e.g. `:name.:ext` or `@:user`
+        const params =
+          pathPart === undefined
+            ? null
+            : matchPartialSegment(
+                segment.partial!,
+                pathPart,
+                segment.caseSensitive ?? caseSensitive
+              );
+        return params !== null && advance(params, index + 1);
+      }
+
+      default: {
+        // Static segment - must match, ignoring case unless configured
+        if (pathPart === undefined) return false;
+        const isEqual =
+          segment.caseSensitive ?? caseSensitive
+            ? pathPart === segment.value
+            : pathPart.toLowerCase() === segment.value.toLowerCase();
+        return isEqual && advance({}, index + 1);
+      }
+    }
+  };
+
+  return matchFrom(0, 0) ? { captures, consumed } : null;
+};
+
+/**
+ * Segments of a pathname, as in the URL and percent-decoded
+ */
+interface PathSegments {
+  raw: string[];
+  decoded: string[];
+}
+
+/**
+ * Decodes one pathname segment
+ * Malformed escapes raise an INVALID_URL_ENCODING error
+ */
+const decodePathSegment = (segment: string, pathname: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return RouterErrors.invalidUrlEncoding(pathname, segment);
+  }
+};
+
+/**
+ * Splits a pathname into segments, decoding them once for all branches
+ */
+const splitPathname = (pathname: string): PathSegments => {
+  const raw = pathname.split("/").filter(Boolean);
+  return {
+    raw,
+    decoded: raw.map((segment) => decodePathSegment(segment, pathname)),
+  };
+};
+
+/**
+ * Encodes a param value for a path segment
+ * The inverse of the decoding applied when matching
+ */
+export const encodeParam = (value: string): string => encodeURIComponent(value);
+
+/**
+ * Encodes a splat value, keeping its slashes as segment separators
+ */
+export const encodeSplat = (value: string): string =>
+  value.split("/").map(encodeParam).join("/");
+
+/**
+ * Builds the match of the first `count` segments
+ * Params are decoded, pathnames stay as in the URL
+ */
+const toPatternMatch = (
+  segments: PatternSegment[],
+  { captures, consumed }: SegmentsMatch,
+  { raw }: PathSegments,
+  count: number
+): PatternMatch => {
+  const params: Record<string, string> = Object.assign(
+    {},
+    ...captures.slice(0, count)
+  );
+
+  const isSplat = count > 0 && segments[count - 1].type === "splat";
+  return {
+    params,
+    pathname: `/${raw.slice(0, consumed[count]).join("/")}`,
+    pathnameBase: `/${raw
+      .slice(0, consumed[isSplat ? count - 1 : count])
+      .join("/")}`,
+  };
+};
+
+/**
+ * Matches a pattern against a pathname, outside of any router
+ *
+ * Uses the router's matcher, so it supports static segments, `:param`,
+ * optional `:param?`, constrained `:param(regex)`, params inside a
+ * segment (`:name.:ext`, `@:user`) and splats (`*` or `*name`), also in
+ * the middle of the pattern. With `end: false`, the pattern only has to
+ * match a prefix of the pathname (layouts). Segments are percent-decoded
+ * before matching; malformed escapes throw INVALID_URL_ENCODING.
+ *
+ * @example
+ * ```ts
+ * matchPath("/users/:id", "/users/42");
+ * // { pattern: "/users/:id", params: { id: "42" }, pathname: "/users/42", ... }
+ *
+ * matchPath("/files/*", "/files/a%20b/c.txt")?.params.splat; // "a b/c.txt"
+ * matchPath("/users", "/users/42/edit", { end: false }) !== null; // true
+ * ```
+ */
+export const matchPath = (
+  pattern: string,
+  pathname: string,
+  { caseSensitive = true, end = true }: MatchOptions = {}
+): PathMatch | null => {
+  const segments = parseSegments(pattern);
+  const path = splitPathname(pathname);
+  const match = matchSegments(segments, path.decoded, end, caseSensitive);
+  return match
+    ? { pattern, ...toPatternMatch(segments, match, path, segments.length) }
+    : null;
+};
+
+/**
+ * Reads a param for generatePath, as a string
+ */
+const readParam = (params: PathParams, name: string): string =>
+  params[name] === null || params[name] === undefined
+    ? ""
+    : String(params[name]);
+
+/**
+ * Fills a pattern with params, unchecked by the route registry
+ */
+const buildPath = (pattern: string, params: PathParams): string => {
+  // Required params must have a non-empty value
+  const required = (name: string): string => {
+    const value = readParam(params, name);
+    if (!value) RouterErrors.paramNotDefined(name, Object.keys(params));
+    return encodeParam(value);
+  };
+
+  const parts = parseSegments(pattern).map((segment) => {
+    switch (segment.type) {
+      case "splat":
+        return encodeSplat(readParam(params, segment.value));
+      case "optional":
+        return encodeParam(readParam(params, segment.value));
+      case "dynamic":
+        return required(segment.value);
+      case "partial":
+        return tokenizeSegment(segment.value, pattern)
+          .map((token) =>
+            token.type === "param" ? required(token.name) : token.value
+          )
+          .join("");
+      default:
+        return segment.value;
+    }
+  });
+
+  const pathname = `/${parts.filter(Boolean).join("/")}`;
+  return pattern.endsWith("/") && pathname !== "/" ? `${pathname}/` : pathname;
+};
+
+/**
+ * Builds a pathname from a pattern and params
+ *
+ * The inverse of matchPath: values are encoded with `encodeParam` (and
+ * `encodeSplat` for splats), so the pathname matches back to the same
+ * params. Optional params and splats without a value are left out;
+ * other missing params throw PARAM_NOT_DEFINED.
+ *
+ * With literal patterns the params are type-checked: required params
+ * must be passed, and only registered patterns are accepted once routes
+ * are registered (see `Register`).
+ *
+ * @example
+ * ```ts
+ * generatePath("/users/:id/posts/:postId?", { id: 42 }); // "/users/42/posts"
+ * generatePath("/tags/:tag", { tag: "c++" }); // "/tags/c%2B%2B"
+ * generatePath("/files/*", { splat: "docs/read me.md" }); // "/files/docs/read%20me.md"
+ * generatePath("/files/:name.:ext", { name: "report", ext: "pdf" }); // "/files/report.pdf"
+ * ```
+ */
+export const generatePath = <Pattern extends RoutePattern>(
+  pattern: Pattern,
+  ...[input]: GeneratePathArgs<Pattern>
+): string => buildPath(pattern, (input ?? {}) as PathParams);
+
+/**
+ * Matches a branch against the segments of a pathname
+ */
+const matchBranchSegments = (
+  branch: RouteBranch,
+  path: PathSegments,
+  caseSensitive: boolean
+): RouteMatch[] | null => {
+  const match = matchSegments(
+    branch.segments,
+    path.decoded,
+    branch.end,
+    caseSensitive
+  );
+  if (!match) return null;
+
+  return branch.routes.map(({ route, pattern, segmentCount }) => ({
+    route,
+    pattern,
+    ...toPatternMatch(branch.segments, match, path, segmentCount),
+  }));
+};
+
+/**
+ * Matches a branch, returning the match chain from the outermost route
+ */
+export const matchBranch = (
+  branch: RouteBranch,
+  pathname: string,
+  { caseSensitive = true }: MatchOptions = {}
+): RouteMatch[] | null =>
+  matchBranchSegments(branch, splitPathname(pathname), caseSensitive);
+
+/**
+ * Yields the match chain of every matching branch, best first
+ *
+ * Only branches whose static prefix matches the pathname are tried, found
+ * through the compiled trie. Callers that run guards or middleware move
+ * on to the next chain when a route rejects; plain lookups take the
+ * first one.
+ */
+export function* matchRouteBranches(
+  compiled: CompiledRoutes,
+  pathname: string,
+  { caseSensitive = true }: MatchOptions = {}
+): Generator<RouteMatch[]> {
+  const path = splitPathname(pathname);
+  for (const rank of findCandidates(compiled.branchTrie, path.decoded)) {
+    const branch = compiled.branches[rank];
+    const matches = matchBranchSegments(branch, path, caseSensitive);
+    if (matches) yield matches;
+  }
+}
+
+/**
+ * Yields the match chain of every not-found scope containing a pathname,
+ * closest first
+ *
+ * Meant for pathnames no branch matched. Each chain ends at a route with
+ * a not-found element, which renders in that route's Outlet.
+ */
+export function* matchNotFoundScopes(
+  compiled: CompiledRoutes,
+  pathname: string,
+  { caseSensitive = true }: MatchOptions = {}
+): Generator<RouteMatch[]> {
+  const path = splitPathname(pathname);
+  for (const rank of findCandidates(compiled.notFoundTrie, path.decoded)) {
+    const scope = compiled.notFoundScopes[rank];
+    const matches = matchBranchSegments(scope, path, caseSensitive);
+    if (matches) yield matches;
+  }
+}
+
+/**
+ * Cuts a match chain at its deepest route with a not-found element
+ * Used when a loader throws `notFound()` for a route that did match
+ */
+export const findNotFoundScope = (
+  matches: RouteMatch[]
+): RouteMatch[] | null => {
+  for (let i = matches.length - 1; i >= 0; i--) {
+    if (getNotFoundElement(matches[i].route)) return matches.slice(0, i + 1);
+  }
+  return null;
+};
+
+/**
+ * Finds the match chain for a pathname, ignoring guards and middleware
+ */
+export const matchRoutes = (
+  routes: Route[],
+  pathname: string,
+  options?: MatchOptions
+): RouteMatch[] | null => {
+  const { value } = matchRouteBranches(
+    compileRoutes(routes),
+    pathname,
+    options
+  ).next();
+  return value ?? null;
+};
+
+/**
+ * Lists the branches of a route tree in the order they are tried
+ *
+ * Meant for debugging route tables: the first branch whose pattern
+ * matches (and whose guards pass) wins.
+ *
+ * @example
+ * ```ts
+ * console.table(
+ *   rankRoutes(routes).map(({ rank, pattern, score }) => ({
+ *     rank,
+ *     pattern,
+ *     score: score.join(","),
+ *   }))
+ * );
+ * ```
+ */
+export const rankRoutes = (routes: Route[]): RankedRoute[] =>
+  compileRoutes(routes).branches.map((branch, rank) => ({
+    rank,
+    pattern: branch.pattern,
+    score: branch.score,
+    routes: branch.routes.map(({ route }) => route),
+  }));
+
+/**
+ * Builds the path of a named route
+ *
+ * The route's full pattern, parents included, is filled in like with
+ * generatePath, then the search and hash are appended. The basename is
+ * not included; navigate and Link add it like for string targets.
+ * Unknown names throw ROUTE_NAME_NOT_FOUND.
+ *
+ * @example
+ * ```ts
+ * // { path: "/users/:id", children: [{ path: "posts", name: "user.posts" }] }
+ * generateNamedPath(routes, {
+ *   name: "user.posts",
+ *   params: { id: 42 },
+ *   search: { page: "2" },
+ * }); // "/users/42/posts?page=2"
+ * ```
+ */
+export const generateNamedPath = (
+  routes: Route[],
+  { name, params, search, hash }: NamedTo
+): string => {
+  const { names } = compileRoutes(routes);
+  const pattern = names.get(name);
+  if (pattern === undefined) {
+    return RouterErrors.routeNameNotFound(name, Array.from(names.keys()));
+  }
+
+  return createPath({
+    pathname: buildPath(pattern, params ?? {}),
+    search:
+      typeof search === "string"
+        ? search
+        : new URLSearchParams(search).toString(),
+    hash,
+  });
+};
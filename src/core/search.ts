@@ -0,0 +1,242 @@
+import type { Route, SearchField, SearchSchema } from "../types";
+import { RouterErrors } from "../utils/error/errors";
+
+/**
+ * Options of a search param field
+ */
+export interface SearchFieldOptions<T> {
+  /** Used when the key is missing or its values are invalid */
+  default?: T;
+}
+
+/**
+ * Value type of a field, without undefined when it has a default
+ */
+type FieldValue<T, Options> = Options extends { default: T }
+  ? T
+  : T | undefined;
+
+/**
+ * Builds a field reading the last value of its key, like useQuery
+ */
+const scalarField = <T>(
+  parseValue: (value: string) => T,
+  options: SearchFieldOptions<T> = {}
+): SearchField<T | undefined> => ({
+  parse: (values) =>
+    values.length > 0 ? parseValue(values[values.length - 1]) : options.default,
+  serialize: (value) => (value === undefined ? [] : [String(value)]),
+  default: options.default,
+});
+
+const parseNumber = (value: string): number => {
+  const number = Number(value);
+  if (value.trim() === "" || Number.isNaN(number)) {
+    throw new Error(`"${value}" is not a number`);
+  }
+  return number;
+};
+
+const parseBoolean = (value: string): boolean => {
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  throw new Error(`"${value}" is not a boolean`);
+};
+
+/**
+ * Field builders for a route's `searchSchema`
+ *
+ * Single-value fields read the last value of their key. Missing keys
+ * give the field's default, or undefined. Invalid values are replaced
+ * by the default; without one they render the route's errorElement
+ * with an INVALID_SEARCH error.
+ *
+ * @example
+ * ```ts
+ * const routes = [
+ *   {
+ *     path: "/products",
+ *     component: <Products />,
+ *     searchSchema: {
+ *       q: searchParam.string(),
+ *       page: searchParam.number({ default: 1 }),
+ *       inStock: searchParam.boolean({ default: false }),
+ *       sort: searchParam.enum(["price", "name"], { default: "name" }),
+ *       tags: searchParam.array(searchParam.string()),
+ *     },
+ *   },
+ * ];
+ * // /products?page=2&tags=a&tags=b
+ * // { q: undefined, page: 2, inStock: false, sort: "name", tags: ["a", "b"] }
+ * ```
+ */
+export const searchParam = {
+  string: <Options extends SearchFieldOptions<string> = {}>(
+    options?: Options
+  ) =>
+    scalarField((value) => value, options) as SearchField<
+      FieldValue<string, Options>
+    >,
+
+  number: <Options extends SearchFieldOptions<number> = {}>(
+    options?: Options
+  ) =>
+    scalarField(parseNumber, options) as SearchField<
+      FieldValue<number, Options>
+    >,
+
+  /** Accepts `true`/`1` and `false`/`0` */
+  boolean: <Options extends SearchFieldOptions<boolean> = {}>(
+    options?: Options
+  ) =>
+    scalarField(parseBoolean, options) as SearchField<
+      FieldValue<boolean, Options>
+    >,
+
+  enum: <
+    const Values extends readonly string[],
+    Options extends SearchFieldOptions<Values[number]> = {}
+  >(
+    values: Values,
+    options?: Options
+  ) =>
+    scalarField((value) => {
+      if (!values.includes(value)) {
+        throw new Error(`"${value}" is not one of ${values.join(", ")}`);
+      }
+      return value as Values[number];
+    }, options) as SearchField<FieldValue<Values[number], Options>>,
+
+  /** Repeated keys (`?tag=a&tag=b`), parsed with the item field */
+  array: <T>(
+    item: SearchField<T | undefined>,
+    options: SearchFieldOptions<T[]> = {}
+  ): SearchField<T[]> => ({
+    parse: (values) =>
+      values.length > 0
+        ? values.map((value) => item.parse([value]) as T)
+        : options.default ?? [],
+    serialize: (value) => value.flatMap((entry) => item.serialize(entry)),
+    default: options.default,
+  }),
+};
+
+/**
+ * Reads a search string into an object, the last value winning
+ */
+export const readQuery = (search: string): Record<string, string> => {
+  const query: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    query[key] = value;
+  });
+  return query;
+};
+
+/**
+ * Parses one key with its field, falling back to the default
+ */
+const parseField = (
+  key: string,
+  field: SearchField<unknown>,
+  values: string[]
+): unknown => {
+  try {
+    return field.parse(values);
+  } catch (error) {
+    if (field.default !== undefined) return field.default;
+    return RouterErrors.invalidSearch(
+      key,
+      values,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+};
+
+/**
+ * Applies a route's validateSearch and searchSchema to the query of its
+ * parent, overriding the keys they declare
+ */
+export const validateRouteSearch = (
+  route: Route,
+  parentQuery: Record<string, any>,
+  searchParams: URLSearchParams
+): Record<string, any> => {
+  if (!route.validateSearch && !route.searchSchema) return parentQuery;
+
+  const query = { ...parentQuery };
+  if (route.validateSearch) {
+    Object.assign(query, route.validateSearch(searchParams));
+  }
+  for (const [key, field] of Object.entries(route.searchSchema ?? {})) {
+    query[key] = parseField(key, field, searchParams.getAll(key));
+  }
+  return query;
+};
+
+/**
+ * Parses the search of a match chain with the schemas of its routes
+ * Keys no schema declares keep their raw (last) value.
+ */
+export const parseSearch = (
+  routes: Route[],
+  search: string
+): Record<string, any> => {
+  const searchParams = new URLSearchParams(search);
+  return routes.reduce(
+    (query, route) => validateRouteSearch(route, query, searchParams),
+    readQuery(search)
+  );
+};
+
+/**
+ * Field of the deepest route declaring a key
+ */
+const findField = (
+  routes: Route[],
+  key: string
+): SearchField<unknown> | undefined => {
+  for (let i = routes.length - 1; i >= 0; i--) {
+    const field = routes[i].searchSchema?.[key];
+    if (field) return field;
+  }
+  return undefined;
+};
+
+const sameValues = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((value, i) => value === b[i]);
+
+/**
+ * Writes updated values into a search string
+ *
+ * Keys declared by a route's searchSchema are serialized by their field
+ * and left out when equal to its default. Other arrays become repeated
+ * keys and other values strings. Undefined and null remove the key;
+ * keys missing from the update are kept.
+ */
+export const serializeSearch = (
+  routes: Route[],
+  update: Record<string, unknown>,
+  search: string
+): string => {
+  const searchParams = new URLSearchParams(search);
+
+  for (const [key, value] of Object.entries(update)) {
+    searchParams.delete(key);
+    if (value === undefined || value === null) continue;
+
+    const field = findField(routes, key);
+    const values = field
+      ? field.serialize(value)
+      : (Array.isArray(value) ? value : [value]).map(String);
+    if (
+      field?.default !== undefined &&
+      sameValues(values, field.serialize(field.default))
+    ) {
+      continue;
+    }
+    values.forEach((entry) => searchParams.append(key, entry));
+  }
+
+  const serialized = searchParams.toString();
+  return serialized ? `?${serialized}` : "";
+};
@@ -1,16 +1,11 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type {
+  BlockedNavigation,
   Blocker,
   BlockerFunction,
-  HistoryAction,
   Location,
 } from "../types";
-import { useLocation } from "./useLocation";
-
-/**
- * Creates a unique key
- */
-const createKey = (): string => Math.random().toString(36).substring(2, 10);
+import { useRouter } from "./useRouter";
 
 /**
  * Hook to block navigation when certain conditions are met
@@ -18,6 +13,13 @@ const createKey = (): string => Math.random().toString(36).substring(2, 10);
  * Useful for preventing accidental navigation away from forms
  * with unsaved changes or other important user actions.
  *
+ * In-app navigations (`navigate()`, Link, NavLink) are held until
+ * `proceed()` or `reset()` is called. Blocked back/forward navigations
+ * are reverted to the previous history entry and replayed on `proceed()`.
+ * Navigations started while one is held replace it.
+ * Leaving the page (reload, closing the tab, external links) triggers
+ * the browser's native `beforeunload` prompt.
+ *
  * @example
  * ```tsx
  * function EditForm() {
@@ -45,11 +47,11 @@ const createKey = (): string => Math.random().toString(36).substring(2, 10);
  * }
  * ```
  *
- * @param blockerFn - Function that determines if navigation should be blocked
+ * @param blockerFn - Function (or boolean) that determines if navigation should be blocked
  * @returns Blocker object with state and control functions
  */
-export function useBlocker(blockerFn: BlockerFunction): Blocker {
-  const location = useLocation();
+export function useBlocker(blockerFn: BlockerFunction | boolean): Blocker {
+  const { location, registerBlocker } = useRouter();
   const [state, setState] = useState<"blocked" | "proceeding" | "unblocked">(
     "unblocked"
   );
@@ -57,56 +59,56 @@ export function useBlocker(blockerFn: BlockerFunction): Blocker {
     Location | undefined
   >();
   const blockerFnRef = useRef(blockerFn);
-  const pendingNavigationRef = useRef<{
-    nextLocation: Location;
-    action: HistoryAction;
-  } | null>(null);
+  const pendingNavigationRef = useRef<BlockedNavigation | null>(null);
 
   // Keep blocker function ref updated
   useEffect(() => {
     blockerFnRef.current = blockerFn;
   }, [blockerFn]);
 
-  const proceed = useCallback(() => {
-    setState("proceeding");
+  /**
+   * Evaluates the blocker function (or boolean) for a navigation
+   */
+  const shouldBlock: BlockerFunction = useCallback((args) => {
+    const current = blockerFnRef.current;
+    return typeof current === "function" ? current(args) : current;
+  }, []);
 
-    if (pendingNavigationRef.current) {
-      const { nextLocation, action } = pendingNavigationRef.current;
-
-      // Perform the blocked navigation
-      if (action === "POP") {
-        // For browser back/forward, we need to let it proceed
-        // The history has already changed, we just need to allow the UI to update
-      } else if (action === "PUSH") {
-        window.history.pushState(
-          { key: createKey() },
-          "",
-          nextLocation.pathname + nextLocation.search + nextLocation.hash
-        );
-      } else if (action === "REPLACE") {
-        window.history.replaceState(
-          { key: createKey() },
-          "",
-          nextLocation.pathname + nextLocation.search + nextLocation.hash
-        );
-      }
+  // Register with RouterProvider so in-app navigations are held
+  useEffect(() => {
+    return registerBlocker({
+      // Keep blocking while a navigation is held
+      shouldBlock: (args) =>
+        pendingNavigationRef.current !== null || shouldBlock(args),
+      onBlocked: (navigation) => {
+        // A newer navigation replaces the held one
+        pendingNavigationRef.current?.reset();
+        pendingNavigationRef.current = navigation;
+        setBlockedLocation(navigation.location);
+        setState("blocked");
+      },
+    });
+  }, [registerBlocker, shouldBlock]);
 
-      // Dispatch location change event
-      window.dispatchEvent(new Event("locationchange"));
-    }
+  const proceed = useCallback(() => {
+    const navigation = pendingNavigationRef.current;
+    if (!navigation) return;
+
+    setState("proceeding");
+    pendingNavigationRef.current = null;
+    navigation.proceed();
 
     setState("unblocked");
     setBlockedLocation(undefined);
-    pendingNavigationRef.current = null;
   }, []);
 
   const reset = useCallback(() => {
-    setState("unblocked");
-    setBlockedLocation(undefined);
+    const navigation = pendingNavigationRef.current;
     pendingNavigationRef.current = null;
+    navigation?.reset();
 
-    // For popstate events, we need to restore the previous location
-    // by navigating back to where we were
+    setState("unblocked");
+    setBlockedLocation(undefined);
   }, []);
 
   // Setup beforeunload listener for external navigation
@@ -123,7 +125,7 @@ export function useBlocker(blockerFn: BlockerFunction): Blocker {
       };
 
       if (
-        blockerFnRef.current({
+        shouldBlock({
           currentLocation: location,
           nextLocation,
           action: "PUSH",
@@ -137,7 +139,7 @@ export function useBlocker(blockerFn: BlockerFunction): Blocker {
 
     window.addEventListener("beforeunload", handleBeforeUnload);
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
-  }, [location, state]);
+  }, [location, state, shouldBlock]);
 
   return {
     state,
@@ -150,7 +152,9 @@ export function useBlocker(blockerFn: BlockerFunction): Blocker {
 /**
  * Hook to prompt user before navigation when condition is met
  *
- * Simpler alternative to useBlocker that uses native browser dialogs.
+ * Simpler alternative to useBlocker that uses native browser dialogs:
+ * `window.confirm` for in-app navigations and the `beforeunload`
+ * prompt when leaving the page.
  *
  * @example
  * ```tsx
@@ -174,16 +178,15 @@ export function useBlocker(blockerFn: BlockerFunction): Blocker {
  * @param when - Condition that determines if prompt should be shown
  */
 export function usePrompt(message: string, when: boolean): void {
-  useEffect(() => {
-    if (!when) return;
+  const blocker = useBlocker(when);
 
-    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
-      event.preventDefault();
-      event.returnValue = message;
-      return message;
-    };
+  useEffect(() => {
+    if (blocker.state !== "blocked") return;
 
-    window.addEventListener("beforeunload", handleBeforeUnload);
-    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
-  }, [message, when]);
+    if (window.confirm(message)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker, message]);
 }
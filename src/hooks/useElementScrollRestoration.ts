@@ -0,0 +1,95 @@
+import { RefObject, useEffect, useLayoutEffect, useRef } from "react";
+import {
+  getElementScrollKey,
+  readScrollPositions,
+  saveScrollPositions,
+  SCROLL_STORAGE_KEY,
+} from "../utils/scroll";
+import { useRouter } from "./useRouter";
+
+/**
+ * Hook to save and restore the scroll offsets of an element per history entry
+ *
+ * For layouts that scroll inside a panel or a virtualized list instead of
+ * the window. The offsets are saved right before the router renders a new
+ * location and restored on back/forward once the route rendered and its
+ * loaders resolved, like window scroll in `<ScrollRestoration>`. New entries
+ * reset the element to the top unless navigated with `preventScrollReset`.
+ *
+ * Marking the element with `data-scroll-restoration-id` does the same when
+ * `<ScrollRestoration>` is mounted.
+ *
+ * @example
+ * ```tsx
+ * function InboxLayout() {
+ *   const listRef = useRef<HTMLDivElement>(null);
+ *   useElementScrollRestoration(listRef, "inbox-list");
+ *
+ *   return (
+ *     <div ref={listRef} className="inbox-list">
+ *       <Outlet />
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @param ref - Ref to the scrolling element
+ * @param key - Identifies the element, unique among restored elements
+ */
+export function useElementScrollRestoration(
+  ref: RefObject<HTMLElement | null>,
+  key: string
+): void {
+  const { location, registerScrollRestorer } = useRouter();
+  const locationKeyRef = useRef(location.key);
+
+  useEffect(() => {
+    locationKeyRef.current = location.key;
+  }, [location.key]);
+
+  // Registered during layout so the router restores the first render too
+  useLayoutEffect(() => {
+    if (typeof window === "undefined") return;
+
+    const save = (entryKey: string) => {
+      const element = ref.current;
+      if (!element) return;
+      saveScrollPositions(SCROLL_STORAGE_KEY, {
+        [getElementScrollKey(entryKey, key)]: {
+          left: element.scrollLeft,
+          top: element.scrollTop,
+        },
+      });
+    };
+
+    const unregister = registerScrollRestorer({
+      save: (location) => save(location.key),
+      restore: ({ location, action, preventScrollReset }) => {
+        const element = ref.current;
+        if (!element) return false;
+
+        const saved =
+          readScrollPositions(SCROLL_STORAGE_KEY)[
+            getElementScrollKey(location.key, key)
+          ];
+        if (action === "POP" && saved) {
+          element.scrollTo(saved.left, saved.top);
+        } else if (!preventScrollReset) {
+          element.scrollTo(0, 0);
+        }
+
+        // Window scroll is left to the router and ScrollRestoration
+        return false;
+      },
+    });
+
+    // Reloads and leaving the page bypass the router
+    const handlePageHide = () => save(locationKeyRef.current);
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      unregister();
+      window.removeEventListener("pagehide", handlePageHide);
+    };
+  }, [ref, key, registerScrollRestorer]);
+}
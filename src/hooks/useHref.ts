@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import type { NavigateTarget } from "../types";
+import { isExternalUrl, joinBasename } from "../utils/path";
+import { useRouter } from "./useRouter";
+
+/**
+ * Hook to build the href for an in-app path
+ *
+ * Applies the router basename and lets the history format the URL,
+ * so links point to `/app/users` with browser history or
+ * `#/app/users` with hash history. External URLs are returned as-is.
+ * Hash-only targets (`#section`) point into the current page, and
+ * named routes are built from the route tree.
+ *
+ * @example
+ * ```tsx
+ * function CopyLinkButton() {
+ *   const href = useHref('/users/42');
+ *   return <button onClick={() => copy(href)}>Copy link</button>;
+ * }
+ *
+ * // Named route
+ * const href = useHref({ name: 'user', params: { id: 42 } });
+ * ```
+ *
+ * @param to - Target path or named route
+ * @returns The href to use in an anchor
+ */
+export function useHref(to: NavigateTarget): string {
+  const { history, basename, location, pathTo } = useRouter();
+  const { pathname, search } = location;
+  const target = pathTo(to);
+
+  return useMemo(() => {
+    if (isExternalUrl(target)) return target;
+    const path = target.startsWith("#")
+      ? `${pathname}${search}${target}`
+      : target;
+    return history.createHref(joinBasename(basename, path));
+  }, [target, history, basename, pathname, search]);
+}
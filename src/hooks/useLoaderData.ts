@@ -1,10 +1,14 @@
+import { useContext } from "react";
+import { RouteMatchContext } from "../context/OutletContext";
 import type { RouteMeta } from "../types";
 import { useRouter } from "./useRouter";
 
 /**
  * Hook to access the current route's loader data
  *
- * Returns data loaded by the route's loader function.
+ * Returns data loaded by the loader of the route rendering the calling
+ * component, so layouts and their children each read their own data.
+ * Outside route elements, returns the deepest loader's data.
  *
  * @example
  * ```tsx
@@ -37,8 +41,16 @@ import { useRouter } from "./useRouter";
  * @returns The loader data or null if no loader exists
  */
 export function useLoaderData<T = any>(): T | null {
-  const { loaderData } = useRouter();
-  return loaderData as T | null;
+  const { loaderData, matches } = useRouter();
+  const match = useContext(RouteMatchContext);
+  const pattern =
+    match?.pattern ??
+    [...matches].reverse().find(({ route }) => route.loader)?.pattern;
+
+  if (!loaderData || pattern === undefined || !(pattern in loaderData)) {
+    return null;
+  }
+  return loaderData[pattern] as T;
 }
 
 /**
@@ -1,100 +1,14 @@
-import { useCallback, useSyncExternalStore } from "react";
+import { useCallback } from "react";
+import { createPath, resolvePath } from "../core/history";
 import type { Location } from "../types";
-
-/**
- * Creates a unique key for location
- */
-const createKey = (): string => {
-  return Math.random().toString(36).substring(2, 10);
-};
-
-/**
- * Cached location to avoid infinite loops with useSyncExternalStore
- */
-let cachedLocation: Location | null = null;
-let cachedLocationString: string = "";
-
-/**
- * Get current location snapshot (cached)
- */
-const getLocationSnapshot = (): Location => {
-  if (typeof window === "undefined") {
-    return {
-      pathname: "",
-      search: "",
-      hash: "",
-      state: null,
-      key: "default",
-    };
-  }
-
-  // Create a string representation to compare
-  const currentLocationString = `${window.location.pathname}${window.location.search}${window.location.hash}`;
-  const currentStateKey = window.history.state?.key;
-  const fullLocationString = `${currentLocationString}|${
-    currentStateKey || ""
-  }`;
-
-  // Return cached location if nothing changed
-  if (cachedLocation && cachedLocationString === fullLocationString) {
-    return cachedLocation;
-  }
-
-  // Create new location and cache it
-  cachedLocation = {
-    pathname: window.location.pathname,
-    search: window.location.search,
-    hash: window.location.hash,
-    state: window.history.state,
-    key: currentStateKey ?? createKey(),
-  };
-  cachedLocationString = fullLocationString;
-
-  return cachedLocation;
-};
-
-/**
- * Subscribe to location changes
- */
-const subscribeToLocation = (callback: () => void): (() => void) => {
-  if (typeof window === "undefined") {
-    return () => {};
-  }
-
-  const handleLocationChange = () => {
-    // Invalidate cache on location change
-    cachedLocation = null;
-    cachedLocationString = "";
-    callback();
-  };
-
-  window.addEventListener("popstate", handleLocationChange);
-  window.addEventListener("locationchange", handleLocationChange);
-
-  return () => {
-    window.removeEventListener("popstate", handleLocationChange);
-    window.removeEventListener("locationchange", handleLocationChange);
-  };
-};
-
-/**
- * Server-side location snapshot (cached)
- */
-const serverSnapshot: Location = {
-  pathname: "",
-  search: "",
-  hash: "",
-  state: null,
-  key: "default",
-};
-
-const getServerSnapshot = (): Location => serverSnapshot;
+import { useRouter } from "./useRouter";
 
 /**
  * Hook to access the current location
  *
- * Unlike useRouter, this hook only provides location information
- * and will re-render when the location changes.
+ * Unlike useRouter, this hook only provides location information.
+ * The location is read from the router's history, so it works the
+ * same with browser, memory or custom history implementations.
  *
  * @example
  * ```tsx
@@ -112,12 +26,7 @@ const getServerSnapshot = (): Location => serverSnapshot;
  * @returns {Location} Current location object
  */
 export function useLocation(): Location {
-  const location = useSyncExternalStore(
-    subscribeToLocation,
-    getLocationSnapshot,
-    getServerSnapshot
-  );
-
+  const { location } = useRouter();
   return location;
 }
 
@@ -133,6 +42,7 @@ export function useLocation(): Location {
  *   console.log(resolvePath('../settings')); // '/users/settings'
  *   console.log(resolvePath('./edit'));      // '/users/123/edit'
  *   console.log(resolvePath('/home'));       // '/home'
+ *   console.log(resolvePath('?tab=posts'));  // '/users/123?tab=posts'
  * }
  * ```
  */
@@ -140,38 +50,7 @@ export function useResolvedPath(): (to: string) => string {
   const location = useLocation();
 
   return useCallback(
-    (to: string): string => {
-      // Absolute paths
-      if (to.startsWith("/")) {
-        return to;
-      }
-
-      const currentParts = location.pathname.split("/").filter(Boolean);
-
-      // Handle relative navigation
-      if (to.startsWith("./")) {
-        return `/${[...currentParts, to.slice(2)].join("/")}`;
-      }
-
-      if (to.startsWith("../")) {
-        let relativePath = to;
-        const resultParts = [...currentParts];
-
-        while (relativePath.startsWith("../")) {
-          resultParts.pop();
-          relativePath = relativePath.slice(3);
-        }
-
-        if (relativePath) {
-          resultParts.push(relativePath);
-        }
-
-        return `/${resultParts.join("/")}`;
-      }
-
-      // Regular relative path
-      return `/${[...currentParts, to].join("/")}`;
-    },
+    (to: string): string => createPath(resolvePath(to, location.pathname)),
     [location.pathname]
   );
 }
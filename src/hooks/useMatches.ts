@@ -1,5 +1,7 @@
 import { useMemo } from "react";
+import { matchPath } from "../core/matcher";
 import type { RouteMatch } from "../types";
+import { isInvalidUrlEncodingError } from "../utils/error/errors";
 import { useRouter } from "./useRouter";
 
 /**
@@ -86,11 +88,16 @@ export function useMatch(): RouteMatch | null {
 /**
  * Hook to check if a given path matches the current location
  *
+ * Uses the router's matcher, so patterns may contain params, optional
+ * segments and splats. Without `end`, the pattern matches a prefix.
+ * A location with a malformed percent-escape matches no pattern.
+ *
  * @example
  * ```tsx
  * function Navigation() {
  *   const isUsersActive = useMatchPath('/users');
  *   const isExactHome = useMatchPath('/', { end: true });
+ *   const isEditing = useMatchPath('/users/:id/edit', { end: true });
  *
  *   return (
  *     <nav>
@@ -112,16 +119,13 @@ export function useMatchPath(
   const { pathname } = useRouter();
   const { end = false, caseSensitive = false } = options || {};
 
-  const patternPath = caseSensitive ? pattern : pattern.toLowerCase();
-  const currentPath = caseSensitive ? pathname : pathname.toLowerCase();
-
-  if (end) {
-    return currentPath === patternPath || currentPath === `${patternPath}/`;
-  }
-
-  return (
-    currentPath.startsWith(patternPath) &&
-    (currentPath.length === patternPath.length ||
-      currentPath[patternPath.length] === "/")
-  );
+  return useMemo(() => {
+    try {
+      return matchPath(pattern, pathname, { end, caseSensitive }) !== null;
+    } catch (error) {
+      // Malformed URLs match nothing, RouterProvider reports them
+      if (isInvalidUrlEncodingError(error)) return false;
+      throw error;
+    }
+  }, [pattern, pathname, end, caseSensitive]);
 }
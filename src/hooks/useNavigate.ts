@@ -1,5 +1,9 @@
 import { useCallback } from "react";
-import type { NavigateFunction, NavigateOptions } from "../types";
+import type {
+  NavigateFunction,
+  NavigateOptions,
+  NavigateTarget,
+} from "../types";
 import { useRouter } from "./useRouter";
 
 /**
@@ -37,6 +41,9 @@ import { useRouter } from "./useRouter";
  *
  *     // Prevent scroll reset
  *     navigate('/next-section', { preventScrollReset: true });
+ *
+ *     // Named route, built from the route tree
+ *     navigate({ name: 'order', params: { id: order.id }, hash: 'summary' });
  *   };
  * }
  * ```
@@ -63,7 +70,7 @@ export function useNavigate(): NavigateFunction {
   const { navigate } = useRouter();
 
   return useCallback(
-    (to: string | number, options?: NavigateOptions) => {
+    (to: NavigateTarget | number, options?: NavigateOptions) => {
       if (typeof to === "number") {
         navigate(to);
       } else {
@@ -0,0 +1,28 @@
+import type { HistoryAction } from "../types";
+import { useRouter } from "./useRouter";
+
+/**
+ * Hook to get the action that produced the current location
+ *
+ * - `"POP"`: back/forward button, `navigate(-1)`, or the initial load
+ * - `"PUSH"`: a new entry (link click, `navigate('/path')`)
+ * - `"REPLACE"`: the current entry was replaced (`{ replace: true }`)
+ *
+ * @example
+ * ```tsx
+ * function PageTransition({ children }) {
+ *   const navigationType = useNavigationType();
+ *
+ *   // Skip the slide-in animation when restoring from back/forward
+ *   const animate = navigationType !== "POP";
+ *
+ *   return <div className={animate ? "slide-in" : ""}>{children}</div>;
+ * }
+ * ```
+ *
+ * @returns {HistoryAction} The current navigation type
+ */
+export function useNavigationType(): HistoryAction {
+  const { navigationType } = useRouter();
+  return navigationType;
+}
@@ -1,4 +1,5 @@
 import { useMemo } from "react";
+import type { RouteParams } from "../types";
 import { useRouter } from "./useRouter";
 
 /**
@@ -8,6 +9,17 @@ export type Params<Key extends string = string> = {
   readonly [key in Key]: string | undefined;
 };
 
+/**
+ * Params for a useParams type argument
+ * A pattern (containing `:`, `*` or `/`) has its params inferred,
+ * anything else is a union of param names.
+ */
+export type ParamsFor<T extends string> = string extends T
+  ? Params
+  : [T] extends [`${string}${":" | "*" | "/"}${string}`]
+  ? RouteParams<T>
+  : Params<T>;
+
 /**
  * Hook to access route parameters
  *
@@ -29,6 +41,15 @@ export type Params<Key extends string = string> = {
  *
  * @example
  * ```tsx
+ * // Param names inferred from the route pattern
+ * function PostPage() {
+ *   const { id, postId } = useParams<"/users/:id/posts/:postId?">();
+ *   // id: string, postId?: string
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
  * // With TypeScript generics for type safety
  * interface PostParams {
  *   userId: string;
@@ -41,16 +62,16 @@ export type Params<Key extends string = string> = {
  * }
  * ```
  *
- * @template ParamKey - Union of parameter names for type safety
- * @returns {Params<ParamKey>} Object containing route parameters
+ * @template ParamKey - Route pattern, or union of parameter names
+ * @returns {ParamsFor<ParamKey>} Object containing route parameters
  */
 export function useParams<
   ParamKey extends string = string
->(): Params<ParamKey> {
+>(): ParamsFor<ParamKey> {
   const { params } = useRouter();
 
   // Return memoized params to prevent unnecessary re-renders
-  return useMemo(() => params as Params<ParamKey>, [params]);
+  return useMemo(() => params as ParamsFor<ParamKey>, [params]);
 }
 
 /**
@@ -1,41 +1,15 @@
-import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useCallback, useMemo } from "react";
+import { readQuery } from "../core/search";
+import type { RoutePath } from "../types";
 import { useRouter } from "./useRouter";
 
-/**
- * Subscribe to URL search params changes
- */
-const subscribeToSearch = (callback: () => void): (() => void) => {
-  if (typeof window === "undefined") {
-    return () => {};
-  }
-
-  window.addEventListener("popstate", callback);
-  window.addEventListener("locationchange", callback);
-
-  return () => {
-    window.removeEventListener("popstate", callback);
-    window.removeEventListener("locationchange", callback);
-  };
-};
-
-/**
- * Get current search string snapshot
- */
-const getSearchSnapshot = (): string => {
-  if (typeof window === "undefined") return "";
-  return window.location.search;
-};
-
-/**
- * Server snapshot for SSR
- */
-const getServerSnapshot = (): string => "";
-
 /**
  * Hook to access URL search/query parameters
  *
  * Returns an object containing all query parameters from the current URL.
- * This hook will re-render when query parameters change.
+ * This hook will re-render when query parameters change. Repeated keys
+ * keep their last value; use useSearch with a route `searchSchema` for
+ * typed values and arrays.
  *
  * @example
  * ```tsx
@@ -52,20 +26,10 @@ const getServerSnapshot = (): string => "";
  * @returns {Record<string, string>} Object containing query parameters
  */
 export function useQuery(): Record<string, string> {
-  const search = useSyncExternalStore(
-    subscribeToSearch,
-    getSearchSnapshot,
-    getServerSnapshot
-  );
+  const { location } = useRouter();
+  const search = location.search;
 
-  return useMemo(() => {
-    const query: Record<string, string> = {};
-    const params = new URLSearchParams(search);
-    params.forEach((value, key) => {
-      query[key] = value;
-    });
-    return query;
-  }, [search]);
+  return useMemo(() => readQuery(search), [search]);
 }
 
 /**
@@ -104,13 +68,8 @@ export function useSearchParams(): [
     options?: { replace?: boolean }
   ) => void
 ] {
-  const { navigate } = useRouter();
-
-  const search = useSyncExternalStore(
-    subscribeToSearch,
-    getSearchSnapshot,
-    getServerSnapshot
-  );
+  const { navigate, location } = useRouter();
+  const search = location.search;
 
   const searchParams = useMemo(() => new URLSearchParams(search), [search]);
 
@@ -135,12 +94,13 @@ export function useSearchParams(): [
 
       const newSearch = newParams.toString();
       const newUrl = newSearch
-        ? `${window.location.pathname}?${newSearch}`
-        : window.location.pathname;
+        ? `${location.pathname}?${newSearch}`
+        : location.pathname;
 
-      navigate(newUrl, { replace: options?.replace });
+      // Stays on the current (already matched) pathname
+      navigate(newUrl as RoutePath, { replace: options?.replace });
     },
-    [navigate, search]
+    [navigate, search, location.pathname]
   );
 
   return [searchParams, setSearchParams];
@@ -0,0 +1,70 @@
+import { useCallback } from "react";
+import { serializeSearch } from "../core/search";
+import type { RoutePath, SearchOf } from "../types";
+import { useRouter } from "./useRouter";
+
+/**
+ * Setter returned by useSearch
+ * Merges the update into the current search, keeping the other keys
+ */
+export type SetSearch<T> = (
+  update: Partial<T> | ((prev: T) => Partial<T>),
+  options?: { replace?: boolean }
+) => void;
+
+/**
+ * Hook to read and update search params parsed by the routes' schemas
+ *
+ * Values are parsed by the `searchSchema` and `validateSearch` of the
+ * matched routes, parents first. Updates are serialized with the same
+ * fields, so values equal to a default are left out of the URL.
+ *
+ * @example
+ * ```tsx
+ * const productSearch = {
+ *   page: searchParam.number({ default: 1 }),
+ *   sort: searchParam.enum(["price", "name"], { default: "name" }),
+ * };
+ * // { path: "/products", searchSchema: productSearch, component: <Products /> }
+ *
+ * function Products() {
+ *   const [{ page, sort }, setSearch] = useSearch<typeof productSearch>();
+ *   // page: number, sort: "price" | "name"
+ *
+ *   return (
+ *     <button onClick={() => setSearch({ page: page + 1 })}>Next</button>
+ *   );
+ * }
+ * ```
+ *
+ * @template Schema - A search schema, validateSearch function or values type
+ * @returns Tuple of [parsed search, setter function]
+ */
+export function useSearch<Schema = Record<string, any>>(): [
+  SearchOf<Schema>,
+  SetSearch<SearchOf<Schema>>
+] {
+  const { query, matches, location, navigate } = useRouter();
+
+  const setSearch = useCallback<SetSearch<SearchOf<Schema>>>(
+    (update, options) => {
+      const values =
+        typeof update === "function"
+          ? update(query as SearchOf<Schema>)
+          : update;
+      const search = serializeSearch(
+        matches.map((match) => match.route),
+        values,
+        location.search
+      );
+
+      // Stays on the current (already matched) pathname
+      navigate(`${location.pathname}${search}` as RoutePath, {
+        replace: options?.replace,
+      });
+    },
+    [query, matches, location.pathname, location.search, navigate]
+  );
+
+  return [query as SearchOf<Schema>, setSearch];
+}
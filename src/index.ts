@@ -1,9 +1,12 @@
 // Components
+export { default as HashRouter } from "./components/HashRouter";
 export { default as Link } from "./components/Link";
+export { default as MemoryRouter } from "./components/MemoryRouter";
 export { default as NavLink } from "./components/NavLink";
 export { default as Outlet, useOutletContext } from "./components/Outlet";
 export { default as Route } from "./components/route";
 export { default as Router } from "./components/Router";
+export { default as ScrollRestoration } from "./components/ScrollRestoration";
 
 // Context
 export { OutletProvider, useOutlet } from "./context/OutletContext";
@@ -12,20 +15,56 @@ export { default as RouterProvider } from "./context/RouterProvider";
 
 // Core
 export { default as createRouter } from "./core/createRouter";
+export {
+  createBrowserHistory,
+  createHashHistory,
+  createMemoryHistory,
+  createNavigationHistory,
+  createPath,
+  isNavigationApiSupported,
+  parsePath,
+  resolvePath,
+} from "./core/history";
+export type {
+  BrowserHistoryOptions,
+  HashHistoryOptions,
+  MemoryHistory,
+  MemoryHistoryOptions,
+  NavigateEventLike,
+  NavigationHistoryEntryLike,
+  NavigationHistoryOptions,
+  NavigationLike,
+} from "./core/history";
+export {
+  encodeParam,
+  encodeSplat,
+  generateNamedPath,
+  generatePath,
+  matchPath,
+  rankRoutes,
+} from "./core/matcher";
+export type { MatchOptions, PathMatch, RankedRoute } from "./core/matcher";
+export { parseSearch, searchParam, serializeSearch } from "./core/search";
+export type { SearchFieldOptions } from "./core/search";
 
 // Hooks - Core navigation
+export { useHref } from "./hooks/useHref";
 export { useLocation, useResolvedPath } from "./hooks/useLocation";
 export { useNavigate } from "./hooks/useNavigate";
+export { useNavigationType } from "./hooks/useNavigationType";
 export { useRouter } from "./hooks/useRouter";
 
 // Hooks - Route data
 export { useMatch, useMatches, useMatchPath } from "./hooks/useMatches";
 export { useParam, useParams } from "./hooks/useParams";
 export { useQuery, useSearchParams } from "./hooks/useQuery";
+export { useSearch } from "./hooks/useSearch";
+export type { SetSearch } from "./hooks/useSearch";
 
 // Hooks - Advanced
 export { useBlocker, usePrompt } from "./hooks/useBlocker";
 export { useDynamicComponents } from "./hooks/useDynamicComponents";
+export { useElementScrollRestoration } from "./hooks/useElementScrollRestoration";
 export {
   useIsNavigating,
   useLoaderData,
@@ -33,19 +72,30 @@ export {
 } from "./hooks/useLoaderData";
 
 // Component types
+export type { HashRouterProps } from "./components/HashRouter";
+export type { MemoryRouterProps } from "./components/MemoryRouter";
 export type { OutletProps } from "./components/Outlet";
 export type { RouteProps } from "./components/route";
 
 // Core types
 export type {
+  BlockedNavigation,
   Blocker,
   // Blocking
   BlockerFunction,
   DynamicComponents,
+  GeneratePathArgs,
   // Legacy/Internal
   GetComponent,
   GuardArgs,
+  // History
+  History,
   HistoryAction,
+  HistoryCommitCheck,
+  HistoryListener,
+  HistoryUpdate,
+  LeaveGuard,
+  LeaveGuardArgs,
   // Components
   LinkProps,
   LoaderArgs,
@@ -54,14 +104,27 @@ export type {
   Middleware,
   MiddlewareContext,
   MiddlewareResult,
+  NamedTo,
   NavigateFunction,
   // Navigation
   NavigateOptions,
+  NavigateTarget,
   NavLinkProps,
+  ParamConstraint,
+  Path,
+  PathOf,
+  PathParams,
+  PendingHistoryUpdate,
+  // Typed paths
+  Register,
   RouteGuard,
   RouteLoader,
   RouteMatch,
   RouteMeta,
+  RouteParams,
+  RouteParamsInput,
+  RoutePath,
+  RoutePattern,
   // Context
   RouterContextType,
   RouterError,
@@ -71,11 +134,20 @@ export type {
   // Route configuration
   Route as RouteType,
   ScrollRestorationProps,
+  // Search params
+  SearchField,
+  SearchOf,
+  SearchSchema,
+  To,
+  TrailingSlash,
+  ValidateSearch,
 } from "./types/index";
 
 // Error utilities
 export {
   createRouterError,
+  isNotFoundError,
+  notFound,
   RouterErrorCode,
   RouterErrors,
   RouterKitError as RouterKitErrorClass,
@@ -106,6 +178,7 @@ export {
 export type {
   HydrateRouterOptions,
   ServerLoaderResult,
+  ServerMatchOptions,
   ServerMatchResult,
   StaticRouterContext,
   StaticRouterProps,
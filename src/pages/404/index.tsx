@@ -45,7 +45,7 @@ const staile: { [k: string]: React.CSSProperties } = {
 };
 
 const Page404 = () => {
-  const { navigate } = useRouter();
+  const { navigate, back, history } = useRouter();
   const [hover, setHover] = useState(false);
 
   return (
@@ -58,7 +58,12 @@ const Page404 = () => {
         </p>
         <button
           onClick={() => {
-            navigate("/");
+            // Back to where the visitor came from, home on a direct visit
+            if (history.index > 0) {
+              back();
+            } else {
+              navigate("/");
+            }
           }}
           onMouseEnter={() => setHover(true)}
           onMouseLeave={() => setHover(false)}
@@ -67,7 +72,7 @@ const Page404 = () => {
             ...(hover ? staile.errorButtonHover : {}),
           }}
         >
-          Go Back Home
+          Go Back
         </button>
       </div>
     </div>
@@ -1,14 +1,28 @@
 import React, { ReactNode, useMemo } from "react";
-import { OutletProvider } from "../context/OutletContext";
+import { renderMatches, renderNotFound } from "../context/OutletContext";
 import RouterContext from "../context/RouterContext";
+import { createPath } from "../core/history";
+import {
+  compileRoutes,
+  findNotFoundScope,
+  generateNamedPath,
+  matchNotFoundScopes,
+  matchRouteBranches,
+} from "../core/matcher";
+import { parseSearch, readQuery, validateRouteSearch } from "../core/search";
+import Page400 from "../pages/400";
 import Page404 from "../pages/404";
+import { isInvalidUrlEncodingError } from "../utils/error/errors";
+import { applyTrailingSlash, joinBasename, stripBasename } from "../utils/path";
 import type {
+  History,
   Location,
   NavigateFunction,
   Route,
   RouteMatch,
   RouteMeta,
   RouterContextType,
+  TrailingSlash,
 } from "../types";
 
 /**
@@ -25,6 +39,12 @@ export interface StaticRouterProps {
   loaderData?: Record<string, any>;
   /** Context object to collect redirects and status codes */
   context?: StaticRouterContext;
+  /** Match static segments case-sensitively (default: true) */
+  caseSensitive?: boolean;
+  /** Redirect to the canonical trailing slash form (default: "ignore") */
+  trailingSlash?: TrailingSlash;
+  /** Render the closest not-found element, e.g. when a loader threw `notFound()` */
+  notFound?: boolean;
 }
 
 /**
@@ -36,9 +56,11 @@ export interface StaticRouterContext {
   /** HTTP status code */
   statusCode?: number;
   /** Action type (redirect, etc.) */
-  action?: "REDIRECT" | "NOT_FOUND" | "OK";
+  action?: "REDIRECT" | "NOT_FOUND" | "ERROR" | "OK";
   /** Matched route meta */
   meta?: RouteMeta;
+  /** Error rendered with the route's errorElement, e.g. invalid search params */
+  error?: Error;
 }
 
 /**
@@ -70,88 +92,6 @@ const parseUrl = (
   return { pathname: pathname || "/", search, hash };
 };
 
-/**
- * Extract params from a path using a pattern
- */
-const extractParams = (
-  pattern: string,
-  pathname: string,
-  partialMatch: boolean = false
-): Record<string, string> | null => {
-  const patternParts = pattern.split("/").filter(Boolean);
-  const pathParts = pathname.split("/").filter(Boolean);
-
-  if (partialMatch) {
-    if (patternParts.length > pathParts.length) return null;
-  } else if (patternParts.length !== pathParts.length) {
-    const hasCatchAll = patternParts.some((p) => p.startsWith("*"));
-    if (!hasCatchAll) return null;
-  }
-
-  const params: Record<string, string> = {};
-
-  for (let i = 0; i < patternParts.length; i++) {
-    const patternPart = patternParts[i];
-    const pathPart = pathParts[i];
-
-    if (patternPart.startsWith("*")) {
-      const paramName = patternPart.slice(1) || "splat";
-      params[paramName] = pathParts.slice(i).join("/");
-      return params;
-    }
-
-    if (patternPart.startsWith(":")) {
-      const paramName = patternPart.slice(1);
-      if (paramName.endsWith("?")) {
-        params[paramName.slice(0, -1)] = pathPart ?? "";
-      } else {
-        if (pathPart === undefined) return null;
-        params[paramName] = pathPart;
-      }
-      continue;
-    }
-
-    if (patternPart !== pathPart) return null;
-  }
-
-  return params;
-};
-
-/**
- * Join paths safely
- */
-const joinPaths = (parent: string, child: string): string => {
-  const normalizedParent = parent.endsWith("/") ? parent.slice(0, -1) : parent;
-  const normalizedChild = child.startsWith("/") ? child : `/${child}`;
-  return `${normalizedParent}${normalizedChild}`;
-};
-
-/**
- * Normalize path to string (handles array paths)
- */
-const normalizePath = (path: string | string[] | undefined): string => {
-  if (path === undefined) return "";
-  if (Array.isArray(path)) {
-    return path.map((p) => (p.startsWith("/") ? p.slice(1) : p)).join("|");
-  }
-  return path;
-};
-
-/**
- * Get the first path from a path (string or array)
- */
-const getFirstPath = (path: string | string[] | undefined): string => {
-  if (path === undefined) return "";
-  if (Array.isArray(path)) {
-    return path[0] || "";
-  }
-  // Handle pipe-separated paths (already normalized)
-  if (path.includes("|")) {
-    return path.split("|")[0];
-  }
-  return path;
-};
-
 /**
  * StaticRouter - Server-side rendering router
  *
@@ -191,14 +131,14 @@ const StaticRouter = ({
   basename = "",
   loaderData: preloadedData,
   context = {},
+  caseSensitive = true,
+  trailingSlash = "ignore",
+  notFound: loaderNotFound = false,
 }: StaticRouterProps): React.ReactElement => {
   const { pathname, search, hash } = parseUrl(locationString);
 
   // Normalize pathname by removing basename
-  const normalizedPathname =
-    basename && pathname.startsWith(basename)
-      ? pathname.slice(basename.length) || "/"
-      : pathname;
+  const normalizedPathname = stripBasename(pathname, basename);
 
   // Create static location object
   const location: Location = {
@@ -209,91 +149,23 @@ const StaticRouter = ({
     key: "static",
   };
 
-  // Match path helper
-  const matchPath = (
-    routePattern: string,
-    currentPath: string,
-    partialMatch: boolean = false
-  ): {
-    match: boolean;
-    params: Record<string, string>;
-    pattern: string;
-  } | null => {
-    const patterns = routePattern.split("|");
-    for (const pat of patterns) {
-      const extractedParams = extractParams(pat, currentPath, partialMatch);
-      if (extractedParams !== null) {
-        return { match: true, params: extractedParams, pattern: pat };
-      }
-    }
-    return null;
-  };
-
-  // Find matching route
-  const findMatch = (
-    routesList: Route[],
-    currentPath: string,
-    parentPath: string = "/"
-  ): {
-    component: ReactNode;
-    match: RouteMatch | null;
-    pattern: string;
-    params: Record<string, string>;
-  } | null => {
-    let page404Component: ReactNode = null;
-
-    // Sort routes by priority
-    const staticRoutes: Route[] = [];
-    const dynamicRoutes: Route[] = [];
-    const catchAllRoutes: Route[] = [];
-
-    for (const route of routesList) {
-      const is404 = route.path === "404" || route.path === "/404";
-      if (is404) {
-        page404Component = route.component;
-        continue;
-      }
-
-      const pathArray = Array.isArray(route.path)
-        ? route.path
-        : route.path
-        ? [route.path]
-        : [];
-      const hasCatchAll = pathArray.some((p) => p.includes("*"));
-      const hasDynamicParams = pathArray.some((p) => p.includes(":"));
-
-      if (hasCatchAll) {
-        catchAllRoutes.push(route);
-      } else if (hasDynamicParams) {
-        dynamicRoutes.push(route);
-      } else {
-        staticRoutes.push(route);
-      }
-    }
-
-    const orderedRoutes = [
-      ...staticRoutes,
-      ...dynamicRoutes,
-      ...catchAllRoutes,
-    ];
-
-    for (const route of orderedRoutes) {
-      const normalizedRoutePath = normalizePath(route.path);
-      const firstPath = getFirstPath(route.path);
-      const fullPath = joinPaths(parentPath, firstPath);
-      const isParent = route.children && route.children.length > 0;
-      const matchResult = matchPath(
-        normalizedRoutePath.includes("|")
-          ? normalizedRoutePath
-              .split("|")
-              .map((p) => joinPaths(parentPath, p))
-              .join("|")
-          : fullPath,
-        currentPath,
-        isParent
-      );
-
-      if (matchResult) {
+  const compiled = compileRoutes(routes);
+  const searchParams = new URLSearchParams(search);
+  // Set when a route's search params fail validation
+  const invalidSearch: { route?: Route } = {};
+
+  /**
+   * Returns the first chain whose guards pass, running them synchronously
+   * Mirrors RouterProvider, so server and client agree on the match
+   */
+  const resolveChains = (
+    chains: Iterable<RouteMatch[]>
+  ): RouteMatch[] | null => {
+    for (const matches of chains) {
+      let blocked = false;
+      let query = readQuery(search);
+
+      for (const { route, params } of matches) {
         // Handle redirects
         if (route.redirectTo) {
           context.action = "REDIRECT";
@@ -302,12 +174,25 @@ const StaticRouter = ({
           return null;
         }
 
+        // Invalid search params render the route's errorElement
+        try {
+          query = validateRouteSearch(route, query, searchParams);
+        } catch (error) {
+          context.action = "ERROR";
+          context.statusCode = 400;
+          context.error =
+            error instanceof Error ? error : new Error(String(error));
+          invalidSearch.route = route;
+          return null;
+        }
+
         // Handle guards (sync only for SSR)
         if (route.guard) {
           const guardResult = route.guard({
-            pathname: currentPath,
-            params: matchResult.params,
+            pathname: normalizedPathname,
+            params,
             search,
+            query,
           });
 
           // Only handle sync boolean/string results
@@ -318,114 +203,101 @@ const StaticRouter = ({
             return null;
           }
           if (guardResult === false) {
-            continue;
+            blocked = true;
+            break;
           }
         }
+      }
 
-        // Set meta in context
-        if (route.meta) {
-          context.meta = route.meta;
-        }
-
-        const routeMatch: RouteMatch = {
-          route,
-          params: matchResult.params,
-          pathname: currentPath,
-          pathnameBase: parentPath,
-          pattern: matchResult.pattern,
-        };
-
-        // Handle nested routes
-        if (route.children && route.children.length > 0) {
-          const childMatch = findMatch(route.children, currentPath, fullPath);
-
-          if (childMatch) {
-            return {
-              component: (
-                <OutletProvider
-                  outlet={childMatch.component}
-                  childRoutes={route.children}
-                  matches={[routeMatch]}
-                  depth={parentPath.split("/").filter(Boolean).length}
-                >
-                  {route.component}
-                </OutletProvider>
-              ),
-              match: routeMatch,
-              pattern: matchResult.pattern,
-              params: matchResult.params,
-            };
-          }
-        }
+      if (!blocked) return matches;
+    }
 
-        context.action = "OK";
-        context.statusCode = 200;
-
-        // If no children matched, check if this is an exact match
-        const isExactMatch = matchPath(
-          normalizedRoutePath.includes("|")
-            ? normalizedRoutePath
-                .split("|")
-                .map((p) => joinPaths(parentPath, p))
-                .join("|")
-            : fullPath,
-          currentPath,
-          false // Force exact match check
-        );
+    return null;
+  };
 
-        if (isExactMatch) {
-          return {
-            component: route.component,
-            match: routeMatch,
-            pattern: matchResult.pattern,
-            params: matchResult.params,
-          };
-        }
-        // If not exact and no children matched, continue loop matching other routes
-      }
+  // Read through a function, resolveChains sets it as a side effect
+  const isInterrupted = () =>
+    context.action === "REDIRECT" || context.action === "ERROR";
 
-      // Check children routes
-      if (route.children) {
-        const firstPath = getFirstPath(route.path);
-        const childFullPath = joinPaths(parentPath, firstPath);
-        const childMatch = findMatch(
-          route.children,
-          currentPath,
-          childFullPath
-        );
-        if (childMatch) return childMatch;
-      }
+  /**
+   * Resolves the match chain, or the not-found scope rendered instead
+   */
+  const resolveMatches = (): {
+    matches: RouteMatch[];
+    isNotFound: boolean;
+  } | null => {
+    // Non-canonical URLs redirect permanently to their canonical form
+    const canonicalPath = applyTrailingSlash(normalizedPathname, trailingSlash);
+    if (canonicalPath !== normalizedPathname) {
+      context.action = "REDIRECT";
+      context.url = joinBasename(basename, canonicalPath) + search + hash;
+      context.statusCode = 308;
+      return null;
     }
 
-    // No match found - 404
-    if (page404Component) {
-      context.action = "NOT_FOUND";
-      context.statusCode = 404;
-      return {
-        component: page404Component,
-        match: null,
-        pattern: "",
-        params: {},
-      };
-    }
+    const options = { caseSensitive };
+    const matches = resolveChains(
+      matchRouteBranches(compiled, normalizedPathname, options)
+    );
+    if (isInterrupted()) return null;
 
-    return null;
+    if (matches && !loaderNotFound) return { matches, isNotFound: false };
+
+    // The closest not-found element renders in its layout
+    const scope = matches
+      ? findNotFoundScope(matches)
+      : resolveChains(
+          matchNotFoundScopes(compiled, normalizedPathname, options)
+        );
+    if (isInterrupted()) return null;
+    return { matches: scope ?? [], isNotFound: true };
   };
 
-  const result = findMatch(routes, normalizedPathname);
+  /**
+   * Resolves the matches, answering malformed URLs with a 400
+   */
+  const resolveLocation = (): ReturnType<typeof resolveMatches> => {
+    try {
+      return resolveMatches();
+    } catch (error) {
+      if (!isInvalidUrlEncodingError(error)) throw error;
+      context.action = "ERROR";
+      context.statusCode = 400;
+      context.error = error;
+      return null;
+    }
+  };
 
-  // Set 404 if no match
-  if (!result) {
-    context.action = "NOT_FOUND";
-    context.statusCode = 404;
+  const resolved = resolveLocation();
+  const matches = resolved?.matches ?? [];
+  const leaf = matches.length > 0 ? matches[matches.length - 1] : null;
+
+  if (resolved) {
+    context.action = resolved.isNotFound ? "NOT_FOUND" : "OK";
+    context.statusCode = resolved.isNotFound ? 404 : 200;
+    // The deepest route's meta wins
+    const meta = [...matches].reverse().find((match) => match.route.meta);
+    if (meta) {
+      context.meta = meta.route.meta;
+    }
   }
 
-  const { component, match, pattern, params } = result || {
-    component: <Page404 />,
-    match: null,
-    pattern: "",
-    params: {},
-  };
+  const component: ReactNode = !resolved
+    ? context.action === "ERROR"
+      ? invalidSearch.route?.errorElement ?? <Page400 />
+      : null
+    : !resolved.isNotFound
+    ? renderMatches(matches)
+    : leaf
+    ? renderNotFound(matches)
+    : compiled.notFound?.component ?? <Page404 />;
+  const pattern = leaf?.pattern ?? "";
+  const params = leaf?.params ?? {};
+  // The chain's search params were validated while resolving it
+  const query = parseSearch(
+    matches.map((match) => match.route),
+    search
+  );
 
   // Static navigate function (throws error if called during SSR)
   const navigate: NavigateFunction = () => {
@@ -435,17 +307,38 @@ const StaticRouter = ({
     );
   };
 
+  // Static history (reads are allowed, navigation throws)
+  const history = useMemo<History>(
+    () => ({
+      action: "POP",
+      location: { pathname, search, hash, state: null, key: "static" },
+      index: 0,
+      createHref: (to) => (typeof to === "string" ? to : createPath(to)),
+      push: () => navigate("/"),
+      replace: () => navigate("/"),
+      go: () => navigate(0),
+      back: () => navigate(-1),
+      forward: () => navigate(1),
+      listen: () => () => {},
+    }),
+    [pathname, search, hash]
+  );
+
   // Build context value
   const contextValue = useMemo<RouterContextType>(
     () => ({
       pathname: normalizedPathname,
       pattern,
       search,
+      query,
       hash,
       state: null,
       params,
-      matches: match ? [match] : [],
+      matches,
       navigate,
+      // Named targets still build their URL, for links rendered on the server
+      pathTo: (to) =>
+        typeof to === "string" ? to : generateNamedPath(routes, to),
       back: () => {
         throw new Error("[router-kit] back() is not supported in SSR");
       },
@@ -455,6 +348,12 @@ const StaticRouter = ({
       isNavigating: false,
       loaderData: preloadedData || null,
       meta: context.meta || null,
+      location,
+      navigationType: "POP",
+      history,
+      basename,
+      registerBlocker: () => () => {},
+      registerScrollRestorer: () => () => {},
 
       // Legacy aliases
       path: normalizedPathname,
@@ -464,11 +363,15 @@ const StaticRouter = ({
       normalizedPathname,
       pattern,
       search,
+      query,
       hash,
       params,
-      match,
+      matches,
+      routes,
       preloadedData,
       context.meta,
+      history,
+      basename,
     ]
   );
 
@@ -97,7 +97,11 @@ export {
   matchServerRoutes,
   prefetchLoaderData,
 } from "./serverUtils";
-export type { ServerLoaderResult, ServerMatchResult } from "./serverUtils";
+export type {
+  ServerLoaderResult,
+  ServerMatchOptions,
+  ServerMatchResult,
+} from "./serverUtils";
 
 // Client hydration
 export { hydrateRouter, isBrowser, isServerRendered } from "./hydrateRouter";
@@ -1,4 +1,22 @@
-import type { LoaderArgs, Route, RouteMatch, RouteMeta } from "../types";
+import { parsePath } from "../core/history";
+import {
+  compileRoutes,
+  matchNotFoundScopes,
+  matchRoutes,
+} from "../core/matcher";
+import type {
+  LoaderArgs,
+  Route,
+  RouteMatch,
+  RouteMeta,
+  TrailingSlash,
+} from "../types";
+import { parseSearch, readQuery, validateRouteSearch } from "../core/search";
+import {
+  isInvalidUrlEncodingError,
+  isNotFoundError,
+} from "../utils/error/errors";
+import { applyTrailingSlash } from "../utils/path";
 
 /**
  * Result from matching routes on the server
@@ -14,6 +32,19 @@ export interface ServerMatchResult {
   statusCode: number;
   /** Route metadata */
   meta?: RouteMeta;
+  /** Why the request is bad, with a 400 */
+  error?: Error;
+}
+
+/**
+ * Options for matching routes on the server
+ * Pass the same values as to the client router
+ */
+export interface ServerMatchOptions {
+  /** Match static segments case-sensitively (default: true) */
+  caseSensitive?: boolean;
+  /** Redirect to the canonical trailing slash form (default: "ignore") */
+  trailingSlash?: TrailingSlash;
 }
 
 /**
@@ -24,229 +55,125 @@ export interface ServerLoaderResult<T = any> {
   data: Record<string, T>;
   /** Errors encountered during loading */
   errors: Record<string, Error>;
+  /** Whether a loader threw `notFound()` */
+  notFound: boolean;
   /** Time taken to load data (ms) */
   loadTime: number;
 }
 
 /**
- * Extract params from a path using a pattern
- */
-const extractParams = (
-  pattern: string,
-  pathname: string,
-  partialMatch: boolean = false
-): Record<string, string> | null => {
-  const patternParts = pattern.split("/").filter(Boolean);
-  const pathParts = pathname.split("/").filter(Boolean);
-
-  if (partialMatch) {
-    if (patternParts.length > pathParts.length) return null;
-  } else if (patternParts.length !== pathParts.length) {
-    const hasCatchAll = patternParts.some((p) => p.startsWith("*"));
-    if (!hasCatchAll) return null;
-  }
-
-  const params: Record<string, string> = {};
-
-  for (let i = 0; i < patternParts.length; i++) {
-    const patternPart = patternParts[i];
-    const pathPart = pathParts[i];
-
-    if (patternPart.startsWith("*")) {
-      const paramName = patternPart.slice(1) || "splat";
-      params[paramName] = pathParts.slice(i).join("/");
-      return params;
-    }
-
-    if (patternPart.startsWith(":")) {
-      const paramName = patternPart.slice(1);
-      if (paramName.endsWith("?")) {
-        params[paramName.slice(0, -1)] = pathPart ?? "";
-      } else {
-        if (pathPart === undefined) return null;
-        params[paramName] = pathPart;
-      }
-      continue;
-    }
-
-    if (patternPart !== pathPart) return null;
-  }
-
-  return params;
-};
-
-/**
- * Join paths safely
- */
-const joinPaths = (parent: string, child: string): string => {
-  const normalizedParent = parent.endsWith("/") ? parent.slice(0, -1) : parent;
-  const normalizedChild = child.startsWith("/") ? child : `/${child}`;
-  return `${normalizedParent}${normalizedChild}`;
-};
-
-/**
- * Normalize path to string (handles array paths)
- */
-const normalizePath = (path: string | string[] | undefined): string => {
-  if (path === undefined) return "";
-  if (Array.isArray(path)) {
-    return path.map((p) => (p.startsWith("/") ? p.slice(1) : p)).join("|");
-  }
-  return path;
-};
-
-/**
- * Get the first path from a path (string or array)
+ * Meta of the deepest route that has one
  */
-const getFirstPath = (path: string | string[] | undefined): string => {
-  if (path === undefined) return "";
-  if (Array.isArray(path)) {
-    return path[0] || "";
-  }
-  // Handle pipe-separated paths (already normalized)
-  if (path.includes("|")) {
-    return path.split("|")[0];
-  }
-  return path;
-};
+const findMeta = (matches: RouteMatch[]): RouteMeta | undefined =>
+  [...matches].reverse().find((match) => match.route.meta)?.route.meta;
 
 /**
  * Match routes for a given URL on the server
  *
+ * Uses the same matcher as RouterProvider and StaticRouter, so the server
+ * resolves the same match chain, params and 404 as the client. Guards and
+ * middleware are not run.
+ *
+ * URLs that break the `trailingSlash` policy redirect to their canonical
+ * form with a permanent 308. URLs no route matches get a 404, with the
+ * matches of the closest route that has a not-found element. Malformed
+ * percent-escapes in the pathname, and search params a route's
+ * `searchSchema` or `validateSearch` rejects, get a 400.
+ *
  * @example
  * ```ts
- * const result = matchServerRoutes(routes, '/users/123');
+ * const result = matchServerRoutes(routes, req.url, { trailingSlash: 'never' });
  * if (result.redirect) {
- *   return res.redirect(result.redirect);
+ *   return res.redirect(result.statusCode, result.redirect);
  * }
  * console.log(result.params); // { id: '123' }
  * ```
+ *
+ * @param routes - Routes configuration
+ * @param url - Pathname or URL path, the hash is ignored
+ * @param options - Case sensitivity and trailing slash policy
  */
 export function matchServerRoutes(
   routes: Route[],
-  pathname: string,
-  parentPath: string = "/"
+  url: string,
+  { caseSensitive = true, trailingSlash = "ignore" }: ServerMatchOptions = {}
 ): ServerMatchResult {
-  const matches: RouteMatch[] = [];
-
-  // Sort routes by priority
-  const staticRoutes: Route[] = [];
-  const dynamicRoutes: Route[] = [];
-  const catchAllRoutes: Route[] = [];
-
-  for (const route of routes) {
-    const is404 = route.path === "404" || route.path === "/404";
-    if (is404) continue;
-
-    const pathArray = Array.isArray(route.path)
-      ? route.path
-      : route.path
-      ? [route.path]
-      : [];
-    const hasCatchAll = pathArray.some((p) => p.includes("*"));
-    const hasDynamicParams = pathArray.some((p) => p.includes(":"));
+  const { pathname = "/", search = "" } = parsePath(url);
+
+  // Send non-canonical URLs to their canonical form
+  const canonicalPath = applyTrailingSlash(pathname, trailingSlash);
+  if (canonicalPath !== pathname) {
+    return {
+      matches: [],
+      params: {},
+      redirect: canonicalPath + search,
+      statusCode: 308,
+    };
+  }
 
-    if (hasCatchAll) {
-      catchAllRoutes.push(route);
-    } else if (hasDynamicParams) {
-      dynamicRoutes.push(route);
-    } else {
-      staticRoutes.push(route);
+  let matches: RouteMatch[] | null;
+  let scope: RouteMatch[] = [];
+  try {
+    matches = matchRoutes(routes, pathname, { caseSensitive });
+    if (!matches) {
+      scope =
+        matchNotFoundScopes(compileRoutes(routes), pathname, {
+          caseSensitive,
+        }).next().value ?? [];
     }
+  } catch (error) {
+    // A hostile URL is a bad request, not a server error
+    if (!isInvalidUrlEncodingError(error)) throw error;
+    return { matches: [], params: {}, statusCode: 400, error };
   }
 
-  const orderedRoutes = [...staticRoutes, ...dynamicRoutes, ...catchAllRoutes];
-
-  for (const route of orderedRoutes) {
-    const normalizedRoutePath = normalizePath(route.path);
-    const firstPath = getFirstPath(route.path);
-    const fullPath = joinPaths(parentPath, firstPath);
-    const patterns = normalizedRoutePath.split("|");
-
-    for (const pattern of patterns) {
-      const fullPattern = joinPaths(parentPath, pattern);
-      const isParent = route.children && route.children.length > 0;
-      const extractedParams = extractParams(fullPattern, pathname, isParent);
-
-      if (extractedParams !== null) {
-        // Handle redirects
-        if (route.redirectTo) {
-          return {
-            matches: [],
-            params: extractedParams,
-            redirect: route.redirectTo,
-            statusCode: 302,
-            meta: route.meta,
-          };
-        }
-
-        const match: RouteMatch = {
-          route,
-          params: extractedParams,
-          pathname,
-          pathnameBase: parentPath,
-          pattern: fullPattern,
-        };
-        matches.push(match);
-
-        // Check nested routes
-        if (route.children && route.children.length > 0) {
-          const childResult = matchServerRoutes(
-            route.children,
-            pathname,
-            fullPath
-          );
-          if (childResult.redirect) {
-            return childResult;
-          }
-          if (childResult.matches.length > 0) {
-            return {
-              matches: [...matches, ...childResult.matches],
-              params: { ...extractedParams, ...childResult.params },
-              statusCode: childResult.statusCode,
-              meta: childResult.meta || route.meta,
-            };
-          }
-        }
-
-        // If no children matched, check for exact match
-        // Rethink fullPattern logic: patterns contains split parts.
-        // We need to re-verify the specific pattern that matched partially.
-        const isExactMatch = extractParams(fullPattern, pathname, false);
+  // No match found: the closest not-found element renders in its layout
+  if (!matches) {
+    return {
+      matches: scope,
+      params: scope.length > 0 ? scope[scope.length - 1].params : {},
+      statusCode: 404,
+      meta: findMeta(scope),
+    };
+  }
 
-        if (isExactMatch !== null) {
-          return {
-            matches,
-            params: extractedParams,
-            statusCode: 200,
-            meta: route.meta,
-          };
-        }
-        // If not exact and no children matched, continue loop matching other routes (pop from matches implicitly by not returning)
-        matches.pop(); // Remove the partial match from matches array if we are continuing
-      }
+  const leaf = matches[matches.length - 1];
+  const meta = findMeta(matches);
+
+  // Redirects and search validation run down the chain, like StaticRouter
+  const searchParams = new URLSearchParams(search);
+  let query = readQuery(search);
+  for (let i = 0; i < matches.length; i++) {
+    const { route, params } = matches[i];
+    if (route.redirectTo) {
+      return {
+        matches: [],
+        params,
+        redirect: route.redirectTo,
+        statusCode: 302,
+        meta,
+      };
     }
 
-    // Check children even if parent doesn't match
-    if (route.children) {
-      const firstPath = getFirstPath(route.path);
-      const childFullPath = joinPaths(parentPath, firstPath);
-      const childResult = matchServerRoutes(
-        route.children,
-        pathname,
-        childFullPath
-      );
-      if (childResult.matches.length > 0 || childResult.redirect) {
-        return childResult;
-      }
+    try {
+      query = validateRouteSearch(route, query, searchParams);
+    } catch (error) {
+      // The failing route's errorElement renders
+      return {
+        matches: matches.slice(0, i + 1),
+        params,
+        statusCode: 400,
+        meta,
+        error: error instanceof Error ? error : new Error(String(error)),
+      };
     }
   }
 
-  // No match found
   return {
-    matches: [],
-    params: {},
-    statusCode: 404,
+    matches,
+    params: leaf.params,
+    statusCode: 200,
+    meta,
   };
 }
 
@@ -255,6 +182,8 @@ export function matchServerRoutes(
  *
  * This function runs all route loaders in parallel and returns
  * the combined data. Use this on the server before rendering.
+ * When a loader throws `notFound()`, respond with a 404 and render
+ * StaticRouter with `notFound`.
  *
  * @example
  * ```ts
@@ -263,7 +192,7 @@ export function matchServerRoutes(
  *   const matchResult = matchServerRoutes(routes, req.url);
  *
  *   if (matchResult.redirect) {
- *     return res.redirect(matchResult.redirect);
+ *     return res.redirect(matchResult.statusCode, matchResult.redirect);
  *   }
  *
  *   const loaderResult = await prefetchLoaderData(
@@ -271,12 +200,14 @@ export function matchServerRoutes(
  *     req.url,
  *     { headers: req.headers }
  *   );
+ *   const notFound = loaderResult.notFound;
  *
  *   const html = renderToString(
  *     <StaticRouter
  *       routes={routes}
  *       location={req.url}
  *       loaderData={loaderResult.data}
+ *       notFound={notFound}
  *     />
  *   );
  *
@@ -286,7 +217,7 @@ export function matchServerRoutes(
  *     `<script>window.__LOADER_DATA__ = ${JSON.stringify(loaderResult.data)}</script></head>`
  *   );
  *
- *   res.send(finalHtml);
+ *   res.status(notFound ? 404 : matchResult.statusCode).send(finalHtml);
  * });
  * ```
  */
@@ -298,10 +229,13 @@ export async function prefetchLoaderData(
   const startTime = Date.now();
   const data: Record<string, any> = {};
   const errors: Record<string, Error> = {};
+  let notFound = false;
+  const { search = "" } = parsePath(url);
 
   const loaderPromises = matches
     .filter((match) => match.route.loader)
     .map(async (match) => {
+      const index = matches.indexOf(match);
       const routePath = match.pattern;
       const abortController = new AbortController();
 
@@ -314,6 +248,11 @@ export async function prefetchLoaderData(
 
         const loaderArgs: LoaderArgs = {
           params: match.params,
+          // Parsed by the schemas of the loader's route and its parents
+          query: parseSearch(
+            matches.slice(0, index + 1).map(({ route }) => route),
+            search
+          ),
           request,
           signal: abortController.signal,
         };
@@ -323,6 +262,7 @@ export async function prefetchLoaderData(
       } catch (error) {
         errors[routePath] =
           error instanceof Error ? error : new Error(String(error));
+        notFound = notFound || isNotFoundError(error);
       }
     });
 
@@ -331,6 +271,7 @@ export async function prefetchLoaderData(
   return {
     data,
     errors,
+    notFound,
     loadTime: Date.now() - startTime,
   };
 }
@@ -1,16 +1,19 @@
 import { ComponentType, JSX, LazyExoticComponent, ReactNode } from "react";
+import type { PathParams, RoutePath } from "./paths";
 
 /**
  * Route configuration interface
  */
 export interface Route {
-  /** Path pattern(s) for the route */
+  /** Path pattern(s) for the route - omit for pathless layouts and route groups */
   path?: string | string[];
-  /** Component to render */
-  component: JSX.Element;
+  /** Unique name to navigate to the route with, e.g. `user.profile` */
+  name?: string;
+  /** Component to render - route groups without one render their children */
+  component?: JSX.Element;
   /** Nested child routes */
   children?: Route[];
-  /** Index route flag - renders when parent path matches exactly */
+  /** Index route flag - renders in the parent's Outlet when the URL ends at the parent */
   index?: boolean;
   /** Component to render while loading data or performing async tasks */
   loading?: JSX.Element;
@@ -20,16 +23,86 @@ export interface Route {
   loader?: RouteLoader;
   /** Error boundary element for this route */
   errorElement?: JSX.Element;
+  /** Rendered in this route's Outlet when no child matches, or when a loader throws `notFound()` */
+  notFound?: JSX.Element;
   /** Redirect to another path */
   redirectTo?: string;
   /** Route guard function */
   guard?: RouteGuard;
+  /** Leave guard function - runs before navigating away from the route */
+  canLeave?: LeaveGuard;
   /** Middleware chain for route processing (Chain of Responsibility pattern) */
   middleware?: Middleware[];
   /** Route metadata */
   meta?: RouteMeta;
+  /** Match this route's static segments case-sensitively (overrides the router) */
+  caseSensitive?: boolean;
+  /** Constraints for the params declared in this route's path */
+  params?: Record<string, ParamConstraint>;
+  /** Parsers for this route's search params, see `searchParam` */
+  searchSchema?: SearchSchema;
+  /** Custom search validation - throw to render the errorElement */
+  validateSearch?: ValidateSearch;
 }
 
+/**
+ * Parser and serializer of one search param, see `searchParam`
+ */
+export interface SearchField<T> {
+  /** Converts the values of the key (none when missing), throws when invalid */
+  parse: (values: string[]) => T;
+  /** Converts a value back to the values of the key */
+  serialize: (value: T) => string[];
+  /** Replaces invalid values; left out of the URL when serializing */
+  default?: T;
+}
+
+/**
+ * Search params of a route, by key
+ */
+export type SearchSchema = Record<string, SearchField<any>>;
+
+/**
+ * Validates the search params of a route, e.g. with a schema library
+ * Returned values override the keys they declare
+ */
+export type ValidateSearch<
+  T extends Record<string, any> = Record<string, any>
+> = (search: URLSearchParams) => T;
+
+/**
+ * Values of a search schema or validateSearch function
+ *
+ * @example
+ * ```ts
+ * const productSearch = {
+ *   page: searchParam.number({ default: 1 }),
+ *   tags: searchParam.array(searchParam.string()),
+ * };
+ * type ProductSearch = SearchOf<typeof productSearch>;
+ * // { page: number; tags: string[] }
+ * ```
+ */
+export type SearchOf<T> = T extends ValidateSearch<infer Values>
+  ? Values
+  : T extends SearchSchema
+  ? { [K in keyof T]: T[K] extends SearchField<infer V> ? V : never }
+  : T;
+
+/**
+ * Values a path param accepts - a regex or a predicate
+ * A param that fails its constraint makes the route fall through
+ */
+export type ParamConstraint = RegExp | ((value: string) => boolean);
+
+/**
+ * Trailing slash policy for canonical URLs
+ * - `ignore`: `/about` and `/about/` both render, no redirect
+ * - `always`: redirect `/about` to `/about/`
+ * - `never`: redirect `/about/` to `/about`
+ */
+export type TrailingSlash = "ignore" | "always" | "never";
+
 /**
  * Route loader function type
  */
@@ -40,6 +113,8 @@ export type RouteLoader<T = any> = (args: LoaderArgs) => Promise<T> | T;
  */
 export interface LoaderArgs {
   params: Record<string, string>;
+  /** Search params parsed by the route and its parents' schemas */
+  query: Record<string, any>;
   request: Request;
   signal: AbortSignal;
 }
@@ -87,10 +162,34 @@ export interface GuardArgs {
   pathname: string;
   params: Record<string, string>;
   search: string;
+  /** Search params parsed by the route and its parents' schemas */
+  query: Record<string, any>;
   request?: Request;
   signal?: AbortSignal;
 }
 
+/**
+ * Route leave guard function type - supports both sync and async
+ * Return false to stay on the route, or a string to redirect
+ */
+export type LeaveGuard = (
+  args: LeaveGuardArgs
+) => boolean | Promise<boolean> | string | Promise<string>;
+
+/**
+ * Leave guard function arguments
+ */
+export interface LeaveGuardArgs {
+  /** Location being left */
+  currentLocation: Location;
+  /** Location being navigated to */
+  nextLocation: Location;
+  /** Action of the navigation */
+  action: HistoryAction;
+  /** Params of the route being left */
+  params: Record<string, string>;
+}
+
 /**
  * Route metadata
  */
@@ -106,8 +205,11 @@ export interface RouteMeta {
 export interface RouteMatch {
   route: Route;
   params: Record<string, string>;
+  /** Portion of the URL pathname matched by this route */
   pathname: string;
+  /** Matched portion before a splat (`*`) */
   pathnameBase: string;
+  /** Full pattern of this route, e.g. `/users/:id` */
   pattern: string;
 }
 
@@ -139,11 +241,33 @@ export interface NavigateOptions {
   relative?: "route" | "path";
 }
 
+/**
+ * Navigation target referencing a route by its `name`
+ * The URL is built from the route's full pattern, so it follows the
+ * route tree when paths change.
+ */
+export interface NamedTo {
+  /** Name of the route */
+  name: string;
+  /** Values for the params of the route's pattern */
+  params?: PathParams;
+  /** Query string, with or without the leading ?, or its entries */
+  search?: string | Record<string, string>;
+  /** Hash, with or without the leading # */
+  hash?: string;
+}
+
+/**
+ * Target of navigate and Link - a path or a named route
+ */
+export type NavigateTarget = RoutePath | NamedTo;
+
 /**
  * Navigation function type
+ * Targets are checked against the registered routes, see `Register`
  */
 export type NavigateFunction = {
-  (to: string, options?: NavigateOptions): void;
+  (to: NavigateTarget, options?: NavigateOptions): void;
   (delta: number): void;
 };
 
@@ -157,6 +281,8 @@ export interface RouterContextType {
   pattern: string;
   /** Current search string */
   search: string;
+  /** Search params parsed by the matched routes' schemas */
+  query: Record<string, any>;
   /** Current hash */
   hash: string;
   /** History state */
@@ -167,16 +293,36 @@ export interface RouterContextType {
   matches: RouteMatch[];
   /** Navigate function */
   navigate: NavigateFunction;
+  /** Builds the in-app path of a target, named or not, without the basename */
+  pathTo: (to: NavigateTarget) => string;
   /** Go back in history */
   back: () => void;
   /** Go forward in history */
   forward: () => void;
   /** Navigation in progress */
   isNavigating: boolean;
-  /** Loader data from current route */
-  loaderData: any;
+  /** Loader data of the matched routes, by route pattern */
+  loaderData: Record<string, any> | null;
   /** Current route meta */
   meta: RouteMeta | null;
+  /** Current location (pathname relative to basename) */
+  location: Location;
+  /** Action that produced the current location */
+  navigationType: HistoryAction;
+  /** History instance driving the router */
+  history: History;
+  /** Base path for all routes */
+  basename: string;
+  /**
+   * Register a navigation blocker, returns an unregister function
+   * @internal Used by useBlocker - prefer the hook in application code
+   */
+  registerBlocker: (blocker: NavigationBlocker) => () => void;
+  /**
+   * Register scroll save/restore callbacks, returns an unregister function
+   * @internal Used by ScrollRestoration
+   */
+  registerScrollRestorer: (restorer: ScrollRestorer) => () => void;
 
   // Legacy aliases for backward compatibility
   /** @deprecated Use pathname instead */
@@ -206,6 +352,96 @@ export interface Location {
  */
 export type HistoryAction = "POP" | "PUSH" | "REPLACE";
 
+/**
+ * URL parts of a location
+ */
+export interface Path {
+  /** Pathname including leading / */
+  pathname: string;
+  /** Query string including leading ? */
+  search: string;
+  /** Hash including leading # */
+  hash: string;
+}
+
+/**
+ * Navigation target - a URL string or partial path object
+ */
+export type To = string | Partial<Path>;
+
+/**
+ * Update passed to history listeners
+ */
+export interface HistoryUpdate {
+  /** Action that produced the new location */
+  action: HistoryAction;
+  /** The new location */
+  location: Location;
+  /** Aborted when the navigation is cancelled (Navigation API only) */
+  signal?: AbortSignal;
+}
+
+/**
+ * History listener function
+ * Histories that support it (Navigation API) wait for returned promises
+ * before the navigation is considered finished
+ */
+export type HistoryListener = (update: HistoryUpdate) => void | Promise<void>;
+
+/**
+ * Navigation a history is about to commit without having started it
+ */
+export interface PendingHistoryUpdate {
+  /** Action the navigation would produce */
+  action: HistoryAction;
+  /** Location the navigation is heading to */
+  location: Location;
+  /** Distance in the stack, for POP navigations */
+  delta?: number;
+}
+
+/**
+ * Check run before a navigation commits
+ * Returning false cancels the navigation
+ */
+export type HistoryCommitCheck = (update: PendingHistoryUpdate) => boolean;
+
+/**
+ * History abstraction used by RouterProvider
+ *
+ * Decouples the router from `window.history` so it can run against
+ * the browser, an in-memory stack or a custom implementation.
+ */
+export interface History {
+  /** Action that produced the current location */
+  readonly action: HistoryAction;
+  /** Current location */
+  readonly location: Location;
+  /** Position of the current entry in the history stack */
+  readonly index: number;
+  /** Builds an href for use in anchors */
+  createHref: (to: To) => string;
+  /** Pushes a new entry onto the stack */
+  push: (to: To, state?: any) => void;
+  /** Replaces the current entry */
+  replace: (to: To, state?: any) => void;
+  /** Moves through the stack by delta entries */
+  go: (delta: number) => void;
+  /** Equivalent to go(-1) */
+  back: () => void;
+  /** Equivalent to go(1) */
+  forward: () => void;
+  /** Subscribes to location changes, returns an unsubscribe function */
+  listen: (listener: HistoryListener) => () => void;
+  /**
+   * Registers a check for navigations the history did not start (e.g.
+   * `<a>` clicks), run before they commit. Returns an unregister function.
+   * Only histories that can cancel such navigations implement it
+   * (Navigation API); others report them to listeners after the fact.
+   */
+  beforeCommit?: (check: HistoryCommitCheck) => () => void;
+}
+
 /**
  * Navigation blocker function
  */
@@ -215,6 +451,30 @@ export type BlockerFunction = (args: {
   action: HistoryAction;
 }) => boolean;
 
+/**
+ * A navigation held by a blocker
+ */
+export interface BlockedNavigation {
+  /** Location the navigation was heading to */
+  location: Location;
+  /** Action of the held navigation */
+  action: HistoryAction;
+  /** Carry out the navigation */
+  proceed: () => void;
+  /** Drop the navigation and stay on the current location */
+  reset: () => void;
+}
+
+/**
+ * Blocker registered with RouterProvider
+ */
+export interface NavigationBlocker {
+  /** Returns true to hold the navigation */
+  shouldBlock: BlockerFunction;
+  /** Called with the held navigation */
+  onBlocked: (navigation: BlockedNavigation) => void;
+}
+
 /**
  * Blocker state
  */
@@ -240,8 +500,8 @@ export interface DynamicComponents {
  * Link component props
  */
 export interface LinkProps {
-  /** Target path */
-  to: string;
+  /** Target path, checked against the registered routes, or a named route */
+  to: NavigateTarget;
   /** Children to render */
   children: ReactNode;
   /** CSS class name */
@@ -285,8 +545,26 @@ export interface RouterProviderProps {
   routes: Route[];
   /** Base path for all routes */
   basename?: string;
-  /** Initial entries for memory history (SSR) */
+  /** Initial entries - when set without `history`, an in-memory history is used */
   initialEntries?: string[];
+  /** Index of the active initial entry (defaults to the last one) */
+  initialIndex?: number;
+  /** History instance to use (defaults to browser history) */
+  history?: History;
+  /**
+   * Use the Navigation API for the default history when the browser
+   * supports it (default: true)
+   */
+  navigationApi?: boolean;
+  /**
+   * Space in px kept above hash targets when scrolling to them,
+   * e.g. the height of a sticky header (default: 0)
+   */
+  hashScrollOffset?: number | (() => number);
+  /** Match static segments case-sensitively (default: true) */
+  caseSensitive?: boolean;
+  /** Redirect to the canonical trailing slash form (default: "ignore") */
+  trailingSlash?: TrailingSlash;
   /** Fallback element during suspense */
   fallbackElement?: JSX.Element;
 }
@@ -301,5 +579,46 @@ export interface ScrollRestorationProps {
   storageKey?: string;
 }
 
+/**
+ * Scroll state of a location that finished rendering
+ */
+export interface ScrollUpdate {
+  /** Location that rendered (pathname relative to basename) */
+  location: Location;
+  /** Matches of the rendered location */
+  matches: RouteMatch[];
+  /** Action that produced the location */
+  action: HistoryAction;
+  /** The navigation asked to keep the current scroll position */
+  preventScrollReset: boolean;
+}
+
+/**
+ * Scroll lifecycle callbacks registered with the router
+ */
+export interface ScrollRestorer {
+  /** Takes over window scroll from the browser on back/forward */
+  managesWindow?: boolean;
+  /** Called before the router renders a new location */
+  save: (location: Location, matches: RouteMatch[]) => void;
+  /**
+   * Called once the new location rendered and its loaders resolved
+   * Returns true when it restored a saved position
+   */
+  restore: (update: ScrollUpdate) => boolean;
+}
+
 // Export error utilities
 export type { RouterKitError } from "../utils/error/errors";
+
+// Export typed paths
+export type {
+  GeneratePathArgs,
+  PathOf,
+  PathParams,
+  Register,
+  RouteParams,
+  RouteParamsInput,
+  RoutePath,
+  RoutePattern,
+} from "./paths";
@@ -0,0 +1,292 @@
+/**
+ * Registry of the app's route patterns, filled through module augmentation
+ *
+ * Once `routes` is registered, `navigate`, `<Link to>` and `generatePath`
+ * only accept paths of registered patterns, so renaming a route breaks
+ * the build instead of links.
+ *
+ * @example
+ * ```ts
+ * declare module "router-kit" {
+ *   interface Register {
+ *     routes: "/" | "/users/:id" | "/users/:id/posts/:postId?" | "/files/*";
+ *   }
+ * }
+ * ```
+ */
+export interface Register {}
+
+/**
+ * Registered route patterns, or any string when none are registered
+ */
+export type RoutePattern = Register extends {
+  routes: infer Routes extends string;
+}
+  ? Routes
+  : string;
+
+/**
+ * Values accepted for params when building a path
+ * Missing and empty values leave out optional segments and splats
+ */
+export type PathParams = Record<string, string | number | null | undefined>;
+
+type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+
+type LowerLetter =
+  | "a"
+  | "b"
+  | "c"
+  | "d"
+  | "e"
+  | "f"
+  | "g"
+  | "h"
+  | "i"
+  | "j"
+  | "k"
+  | "l"
+  | "m"
+  | "n"
+  | "o"
+  | "p"
+  | "q"
+  | "r"
+  | "s"
+  | "t"
+  | "u"
+  | "v"
+  | "w"
+  | "x"
+  | "y"
+  | "z";
+
+/**
+ * Characters of a param name, like the matcher's `[A-Za-z_$][\w$]*`
+ */
+type NameChar = LowerLetter | Uppercase<LowerLetter> | Digit | "_" | "$";
+
+/**
+ * Splits the param name off the text after a `:`, as `[name, rest]`
+ * The name is empty when the text does not start with one
+ */
+type ReadName<
+  S extends string,
+  Name extends string = ""
+> = S extends `${infer Char}${infer Rest}`
+  ? Char extends NameChar
+    ? Name extends ""
+      ? Char extends Digit
+        ? [Name, S]
+        : ReadName<Rest, Char>
+      : ReadName<Rest, `${Name}${Char}`>
+    : [Name, S]
+  : [Name, S];
+
+/**
+ * Drops a parenthesized group from the start of a string, which may nest
+ */
+type SkipGroup<
+  S extends string,
+  Depth extends unknown[] = []
+> = S extends `${infer Char}${infer Rest}`
+  ? Char extends "\\"
+    ? Rest extends `${string}${infer Escaped}`
+      ? SkipGroup<Escaped, Depth>
+      : ""
+    : Char extends "("
+    ? SkipGroup<Rest, [...Depth, unknown]>
+    : Char extends ")"
+    ? Depth extends [unknown, ...infer Outer]
+      ? Outer extends []
+        ? Rest
+        : SkipGroup<Rest, Outer>
+      : Rest
+    : SkipGroup<Rest, Depth>
+  : "";
+
+/**
+ * Drops an inline constraint `(regex)` following a param name
+ */
+type SkipConstraint<S extends string> = S extends `(${string}`
+  ? SkipGroup<S>
+  : S;
+
+/**
+ * Names of the params in a segment
+ */
+type SegmentParamNames<S extends string> = S extends `${string}:${infer Rest}`
+  ? ReadName<Rest> extends [
+      infer Name extends string,
+      infer After extends string
+    ]
+    ? Name extends ""
+      ? SegmentParamNames<After>
+      : Name | SegmentParamNames<SkipConstraint<After>>
+    : never
+  : never;
+
+/**
+ * Whether a segment is a single optional param: `:id?`, `:id(\d+)?`
+ */
+type IsOptionalSegment<S extends string> = S extends `:${infer Rest}`
+  ? ReadName<Rest> extends [
+      infer Name extends string,
+      infer After extends string
+    ]
+    ? Name extends ""
+      ? false
+      : SkipConstraint<After> extends "?"
+      ? true
+      : false
+    : false
+  : false;
+
+/**
+ * Name of a splat segment's param: `*` is `splat`, `*path` is `path`
+ */
+type SplatName<S extends string> = S extends `*${infer Name}`
+  ? Name extends ""
+    ? "splat"
+    : Name
+  : never;
+
+/**
+ * Non-empty segments of a pattern
+ */
+type SplitPattern<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? Head extends ""
+    ? SplitPattern<Tail>
+    : [Head, ...SplitPattern<Tail>]
+  : P extends ""
+  ? []
+  : [P];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Params a segment captures when matching
+ */
+type SegmentParams<S extends string> = S extends `*${string}`
+  ? { [K in SplatName<S>]: string }
+  : IsOptionalSegment<S> extends true
+  ? { [K in SegmentParamNames<S>]?: string }
+  : { [K in SegmentParamNames<S>]: string };
+
+type PatternParams<Segments> = Segments extends [
+  infer S extends string,
+  ...infer Rest
+]
+  ? SegmentParams<S> & PatternParams<Rest>
+  : {};
+
+/**
+ * Params captured by a pattern
+ *
+ * @example
+ * ```ts
+ * type Post = RouteParams<"/users/:id/posts/:postId?">;
+ * // { id: string; postId?: string }
+ * ```
+ */
+export type RouteParams<Pattern extends string> = string extends Pattern
+  ? Record<string, string | undefined>
+  : Simplify<PatternParams<SplitPattern<Pattern>>>;
+
+/**
+ * Params a segment needs to build a path
+ */
+type SegmentInput<S extends string> = S extends `*${string}`
+  ? { [K in SplatName<S>]?: string | null }
+  : IsOptionalSegment<S> extends true
+  ? { [K in SegmentParamNames<S>]?: string | number | null }
+  : { [K in SegmentParamNames<S>]: string | number };
+
+type PatternInput<Segments> = Segments extends [
+  infer S extends string,
+  ...infer Rest
+]
+  ? SegmentInput<S> & PatternInput<Rest>
+  : {};
+
+/**
+ * Params generatePath needs for a pattern
+ * Optional params and splats may be left out
+ */
+export type RouteParamsInput<Pattern extends string> = string extends Pattern
+  ? PathParams
+  : Simplify<PatternInput<SplitPattern<Pattern>>>;
+
+/**
+ * Arguments of generatePath after the pattern
+ * The params may be omitted when the pattern requires none
+ */
+export type GeneratePathArgs<Pattern extends string> =
+  {} extends RouteParamsInput<Pattern>
+    ? [params?: RouteParamsInput<Pattern>]
+    : [params: RouteParamsInput<Pattern>];
+
+/**
+ * A segment with its params replaced by any text
+ */
+type InterpolateSegment<S extends string> =
+  S extends `${infer Before}:${infer Rest}`
+    ? ReadName<Rest> extends [
+        infer Name extends string,
+        infer After extends string
+      ]
+      ? Name extends ""
+        ? `${Before}:${InterpolateSegment<After>}`
+        : `${Before}${string}${InterpolateSegment<SkipConstraint<After>>}`
+      : never
+    : S;
+
+type JoinSegments<Segments> = Segments extends [
+  infer S extends string,
+  ...infer Rest
+]
+  ? S extends `*${string}`
+    ? `/${string}${JoinSegments<Rest>}` | JoinSegments<Rest>
+    : IsOptionalSegment<S> extends true
+    ? `/${string}${JoinSegments<Rest>}` | JoinSegments<Rest>
+    : `/${InterpolateSegment<S>}${JoinSegments<Rest>}`
+  : "";
+
+/**
+ * Pathnames a pattern matches, as template literal types
+ *
+ * @example
+ * ```ts
+ * type UserPath = PathOf<"/users/:id/:tab?">;
+ * // `/users/${string}` | `/users/${string}/${string}`
+ * ```
+ */
+export type PathOf<Pattern extends string> = JoinSegments<
+  SplitPattern<Pattern>
+> extends infer Path extends string
+  ? Path extends ""
+    ? "/"
+    : Path
+  : never;
+
+/**
+ * A pathname with an optional trailing slash, search or hash
+ */
+type WithSuffix<Path extends string> =
+  | Path
+  | `${Path}/`
+  | `${Path}${"?" | "#" | "/?" | "/#"}${string}`;
+
+/**
+ * Navigation targets accepted by `navigate` and `<Link to>`
+ *
+ * Paths of the registered patterns (with a search or hash), hash-only
+ * targets and external URLs. Any string when no routes are registered.
+ */
+export type RoutePath = string extends RoutePattern
+  ? string
+  :
+      | WithSuffix<PathOf<RoutePattern>>
+      | `#${string}`
+      | `http://${string}`
+      | `https://${string}`;
@@ -14,6 +14,14 @@ export enum RouterErrorCode {
   // Navigation errors
   NAVIGATION_ABORTED = "NAVIGATION_ABORTED",
   INVALID_ROUTE = "INVALID_ROUTE",
+  ROUTE_NAME_NOT_FOUND = "ROUTE_NAME_NOT_FOUND",
+
+  // URL errors
+  INVALID_URL_ENCODING = "INVALID_URL_ENCODING",
+  INVALID_SEARCH = "INVALID_SEARCH",
+
+  // Loader errors
+  NOT_FOUND = "NOT_FOUND",
 }
 
 /**
@@ -61,6 +69,49 @@ export function createRouterError(
   return new RouterKitError(code, message, context);
 }
 
+/**
+ * Creates the error a loader throws when its data does not exist
+ *
+ * The router renders the not-found element of the closest route that has
+ * one, inside that route's layout, instead of the route's errorElement.
+ *
+ * @example
+ * ```ts
+ * loader: async ({ params }) => {
+ *   const project = await fetchProject(params.id);
+ *   if (!project) throw notFound();
+ *   return project;
+ * }
+ * ```
+ */
+export function notFound(
+  message = "Not found",
+  context?: Record<string, any>
+): RouterKitError {
+  return createRouterError(RouterErrorCode.NOT_FOUND, message, context);
+}
+
+/**
+ * Whether an error was created by `notFound()`
+ */
+export function isNotFoundError(error: unknown): error is RouterKitError {
+  return (
+    error instanceof RouterKitError && error.code === RouterErrorCode.NOT_FOUND
+  );
+}
+
+/**
+ * Whether an error reports a malformed percent-escape in a URL
+ */
+export function isInvalidUrlEncodingError(
+  error: unknown
+): error is RouterKitError {
+  return (
+    error instanceof RouterKitError &&
+    error.code === RouterErrorCode.INVALID_URL_ENCODING
+  );
+}
+
 /**
  * Throws a RouterKitError with optional console styling
  */
@@ -148,4 +199,31 @@ export const RouterErrors = {
       `Invalid route "${path}"${reason ? `: ${reason}` : ""}`,
       { path }
     ),
+
+  routeNameNotFound: (name: string, availableNames: string[]) =>
+    throwRouterError(
+      RouterErrorCode.ROUTE_NAME_NOT_FOUND,
+      `No route is named "${name}". Available names: ${
+        availableNames.join(", ") || "none"
+      }`,
+      { name, availableNames }
+    ),
+
+  // Malformed URLs and search params are expected input: callers turn
+  // them into a 400 or an error element, so they are thrown without logging
+  invalidUrlEncoding: (pathname: string, segment: string): never => {
+    throw createRouterError(
+      RouterErrorCode.INVALID_URL_ENCODING,
+      `Malformed percent-encoding in segment "${segment}" of "${pathname}"`,
+      { pathname, segment }
+    );
+  },
+
+  invalidSearch: (key: string, values: string[], reason?: string): never => {
+    throw createRouterError(
+      RouterErrorCode.INVALID_SEARCH,
+      `Invalid search param "${key}"${reason ? `: ${reason}` : ""}`,
+      { key, values }
+    );
+  },
 };
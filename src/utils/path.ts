@@ -0,0 +1,60 @@
+import join from "url-join";
+import type { TrailingSlash } from "../types";
+
+/**
+ * Checks whether a navigation target points to another origin
+ */
+export const isExternalUrl = (to: string): boolean => /^https?:\/\//i.test(to);
+
+/**
+ * Makes an in-app path absolute and prefixes it with the basename
+ * External URLs are returned unchanged
+ */
+export const joinBasename = (basename: string, to: string): string => {
+  if (isExternalUrl(to)) return to;
+  const path = to.startsWith("/") ? to : `/${to}`;
+  if (!basename) return path;
+
+  // Only the pathname is joined: url-join drops a trailing slash
+  // followed by a search or hash
+  const suffixIndex = path.search(/[?#]/);
+  if (suffixIndex === -1) return join(basename, path);
+  return join(basename, path.slice(0, suffixIndex)) + path.slice(suffixIndex);
+};
+
+/**
+ * Checks whether a pathname lies under the basename
+ * The basename must end on a segment boundary: `/app` covers `/app/users`
+ * but not `/application`
+ */
+export const hasBasename = (pathname: string, basename: string): boolean => {
+  const base = basename.replace(/\/+$/, "");
+  if (!base) return true;
+  return pathname === base || pathname.startsWith(`${base}/`);
+};
+
+/**
+ * Removes the basename from a pathname
+ */
+export const stripBasename = (pathname: string, basename: string): string => {
+  const base = basename.replace(/\/+$/, "");
+  if (base && hasBasename(pathname, base)) {
+    return pathname.slice(base.length) || "/";
+  }
+  return pathname;
+};
+
+/**
+ * Applies a trailing slash policy to a pathname
+ * Returns the canonical pathname; the root `/` is always canonical
+ */
+export const applyTrailingSlash = (
+  pathname: string,
+  trailingSlash: TrailingSlash
+): string => {
+  if (trailingSlash === "ignore" || pathname === "/") return pathname;
+  const trimmed = pathname.replace(/\/+$/, "") || "/";
+  return trailingSlash === "always" && trimmed !== "/"
+    ? `${trimmed}/`
+    : trimmed;
+};
@@ -0,0 +1,160 @@
+/**
+ * Scroll offsets of the window or an element
+ */
+export interface ScrollPosition {
+  left: number;
+  top: number;
+}
+
+/**
+ * Default sessionStorage key for saved scroll positions
+ */
+export const SCROLL_STORAGE_KEY = "router-kit-scroll-positions";
+
+/**
+ * Attribute marking elements whose scroll offsets are restored
+ */
+export const SCROLL_RESTORATION_ID_ATTRIBUTE = "data-scroll-restoration-id";
+
+/**
+ * Positions kept when sessionStorage is unavailable (e.g. privacy mode)
+ */
+const memoryPositions = new Map<string, Record<string, ScrollPosition>>();
+
+/**
+ * Reads saved positions, ignoring missing or corrupt storage
+ */
+export const readScrollPositions = (
+  storageKey: string
+): Record<string, ScrollPosition> => {
+  try {
+    const stored = window.sessionStorage.getItem(storageKey);
+    if (stored) return JSON.parse(stored);
+  } catch {
+    // Fall back to positions kept in memory
+  }
+  return memoryPositions.get(storageKey) ?? {};
+};
+
+/**
+ * History entries whose positions are kept per storage key
+ */
+const MAX_SCROLL_ENTRIES = 100;
+
+/**
+ * Entry key of a saved position, without an element id
+ */
+const getEntryKey = (key: string): string => key.split("|")[0];
+
+/**
+ * Saves positions under their keys, merged into the stored ones
+ * Read-modify-write, so several restorers can share a storage key.
+ * Only the most recently saved MAX_SCROLL_ENTRIES entries are kept.
+ */
+export const saveScrollPositions = (
+  storageKey: string,
+  updates: Record<string, ScrollPosition>
+): void => {
+  const stored = readScrollPositions(storageKey);
+  // Re-inserted keys move to the end, so keys stay ordered by recency
+  for (const key of Object.keys(updates)) delete stored[key];
+  const merged = { ...stored, ...updates };
+
+  const recentEntries = new Set<string>();
+  for (const key of Object.keys(merged)) {
+    const entryKey = getEntryKey(key);
+    recentEntries.delete(entryKey);
+    recentEntries.add(entryKey);
+  }
+  const keptEntries = new Set(
+    Array.from(recentEntries).slice(-MAX_SCROLL_ENTRIES)
+  );
+  const positions: Record<string, ScrollPosition> = {};
+  for (const [key, position] of Object.entries(merged)) {
+    if (keptEntries.has(getEntryKey(key))) positions[key] = position;
+  }
+
+  memoryPositions.set(storageKey, positions);
+  try {
+    window.sessionStorage.setItem(storageKey, JSON.stringify(positions));
+  } catch {
+    // Positions stay in memory for this page
+  }
+};
+
+/**
+ * Key of an element position saved for a history entry
+ */
+export const getElementScrollKey = (entryKey: string, id: string): string =>
+  `${entryKey}|${id}`;
+
+/**
+ * How long to wait for a hash target rendered by lazy routes or Suspense
+ */
+const HASH_TARGET_TIMEOUT = 10000;
+
+/**
+ * Finds the element a URL hash points to (by id, then by anchor name)
+ */
+export const findHashTarget = (hash: string): HTMLElement | null => {
+  const id = hash.replace(/^#/, "");
+  if (!id) return null;
+
+  let decoded = id;
+  try {
+    decoded = decodeURIComponent(id);
+  } catch {
+    // Malformed escapes are looked up as written
+  }
+
+  return (
+    document.getElementById(decoded) ??
+    (document.getElementsByName(decoded)[0] as HTMLElement | undefined) ??
+    null
+  );
+};
+
+/**
+ * Scrolls an element to the top of the viewport, below an offset,
+ * and moves focus to it so keyboard and screen reader users follow
+ */
+const scrollToElement = (element: HTMLElement, offset: number): void => {
+  const top = element.getBoundingClientRect().top + window.scrollY - offset;
+  window.scrollTo(0, Math.max(top, 0));
+
+  // Non-interactive targets need a tabindex to receive focus
+  if (!element.hasAttribute("tabindex") && element.tabIndex < 0) {
+    element.setAttribute("tabindex", "-1");
+  }
+  element.focus({ preventScroll: true });
+};
+
+/**
+ * Scrolls the target of a URL hash into view
+ *
+ * Waits for the target to appear when it is rendered later, e.g. by
+ * lazy components. Returns a function that stops waiting.
+ */
+export const scrollToHash = (hash: string, offset: number): (() => void) => {
+  const target = findHashTarget(hash);
+  if (target) {
+    scrollToElement(target, offset);
+    return () => {};
+  }
+
+  const observer = new MutationObserver(() => {
+    const lateTarget = findHashTarget(hash);
+    if (lateTarget) {
+      stop();
+      scrollToElement(lateTarget, offset);
+    }
+  });
+  const timeout = setTimeout(() => stop(), HASH_TARGET_TIMEOUT);
+  const stop = () => {
+    observer.disconnect();
+    clearTimeout(timeout);
+  };
+
+  observer.observe(document.body, { childList: true, subtree: true });
+  return stop;
+};